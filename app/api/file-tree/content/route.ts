@@ -0,0 +1,156 @@
+import { NextRequest } from 'next/server';
+import path from 'node:path';
+import { createReadStream, promises as fs } from 'node:fs';
+import { Readable } from 'node:stream';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import {
+  detectContentKind,
+  imageMimeType,
+} from '../../../../lib/fileTree/fileContent';
+import {
+  ensureTreeOnDisk,
+  resolveRoot,
+  resolveTreePath,
+} from '../../../../lib/fileTree/roots';
+import { assertReadableFile } from '../../../../lib/fileTree/symlinks';
+import { filterFromSearchParams } from '../../../../lib/fileTree/treeFilter';
+import {
+  extractExtension,
+  fromTreePath,
+} from '../../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+/** Text and binary previews never need more than this. */
+const MAX_PREVIEW_BYTES = 1024 * 1024;
+/** Images are rendered whole, so they get a larger allowance. */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+type ByteRange = { start: number; end: number };
+
+class RangeNotSatisfiableError extends Error {}
+
+/**
+ * Streams the content of a single file for the details panel preview.
+ *
+ * Query parameters are `root` and `path`, as for /api/file-tree. Paths through a link
+ * the tree does not follow, and links to files outside the root, are rejected. A single
+ * `Range: bytes=` header is honoured, and every response is capped at MAX_PREVIEW_BYTES
+ * (MAX_IMAGE_BYTES for images); when the cap cuts a response short it is sent as a 206
+ * so the client can tell from `Content-Range` how much of the file it got.
+ *
+ * `X-Content-Kind` reports whether the file looks like text, binary or an image. The
+ * restrictive CSP keeps SVGs and HTML from running scripts if opened directly.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const treePath = searchParams.get('path');
+    if (!treePath) {
+      throw new BadRequestError('Missing path.');
+    }
+    const filter = filterFromSearchParams(root, searchParams);
+
+    await ensureTreeOnDisk(root);
+
+    const relativePath = fromTreePath(treePath);
+    const absolutePath = resolveTreePath(root, treePath);
+    await assertReadableFile(filter, relativePath);
+    const stats = await fs.stat(absolutePath);
+    if (!stats.isFile()) {
+      throw new BadRequestError(`${treePath} is not a file.`);
+    }
+
+    const extension = extractExtension(path.basename(absolutePath));
+    const kind = await detectContentKind(absolutePath, extension);
+    const cap = kind === 'image' ? MAX_IMAGE_BYTES : MAX_PREVIEW_BYTES;
+
+    let range: ByteRange;
+    try {
+      range = parseRange(request.headers.get('range'), stats.size, cap);
+    } catch (error) {
+      if (error instanceof RangeNotSatisfiableError) {
+        return new Response(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${stats.size}` },
+        });
+      }
+      throw error;
+    }
+
+    const isPartial =
+      stats.size > 0 && (range.start > 0 || range.end < stats.size - 1);
+    const length = stats.size === 0 ? 0 : range.end - range.start + 1;
+
+    const headers: Record<string, string> = {
+      'Content-Type':
+        imageMimeType(extension) ??
+        (kind === 'text'
+          ? 'text/plain; charset=utf-8'
+          : 'application/octet-stream'),
+      'Content-Length': String(length),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'no-cache',
+      'Last-Modified': stats.mtime.toUTCString(),
+      'X-Content-Kind': kind,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy':
+        "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    };
+    if (isPartial) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${stats.size}`;
+    }
+
+    if (length === 0) {
+      return new Response(null, { status: 200, headers });
+    }
+
+    const fileStream = createReadStream(absolutePath, {
+      start: range.start,
+      end: range.end,
+    });
+    request.signal.addEventListener('abort', () => fileStream.destroy());
+
+    return new Response(Readable.toWeb(fileStream) as ReadableStream, {
+      status: isPartial ? 206 : 200,
+      headers,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read file content.');
+  }
+}
+
+/**
+ * Parses a single `bytes=` range (`a-b`, `a-` or `-n`) and clamps it to the file and to
+ * `cap`. Without a header the whole file, up to the cap, is returned.
+ */
+function parseRange(header: string | null, size: number, cap: number): ByteRange {
+  const lastByte = Math.max(0, size - 1);
+
+  if (!header) {
+    return { start: 0, end: Math.min(lastByte, cap - 1) };
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new BadRequestError(`Unsupported range: ${header}`);
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    const suffixLength = Number(match[2]);
+    start = Math.max(0, size - suffixLength);
+    end = lastByte;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), lastByte) : lastByte;
+  }
+
+  if (size > 0 && (start >= size || start > end)) {
+    throw new RangeNotSatisfiableError();
+  }
+
+  return { start, end: Math.min(end, start + cap - 1) };
+}
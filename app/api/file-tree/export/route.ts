@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { ExportColumn } from '../../../../types/fileTree';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import { readFolder } from '../../../../lib/fileTree/readTree';
+import {
+  parseBooleanParam,
+  parseIntegerParam,
+  sortOrderFromSearchParams,
+} from '../../../../lib/fileTree/requestParams';
+import { ensureTreeOnDisk, resolveRoot } from '../../../../lib/fileTree/roots';
+import { assertFollowedPath } from '../../../../lib/fileTree/symlinks';
+import {
+  defaultExportColumns,
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FILE_EXTENSIONS,
+  EXPORT_FORMATS,
+  exportTree,
+  isExportColumn,
+  isExportFormat,
+  MAX_EXPORT_DEPTH,
+} from '../../../../lib/fileTree/treeExport';
+import { filterFromSearchParams } from '../../../../lib/fileTree/treeFilter';
+import { fromTreePath, ROOT_KEY } from '../../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Serialises the tree under a folder, for pasting into docs and tickets.
+ *
+ * Query parameters:
+ * - `root`, `path`, `showHidden` and `sort`/`order`/`foldersFirst`: as for /api/file-tree.
+ * - `format`: `json` (nested), `csv` (one row per entry), `markdown` (a nested list) or
+ *   `tree` (the `tree` command's ASCII art). Defaults to `json`.
+ * - `depth`: how many levels below the folder to include. Defaults to all of them, up
+ *   to MAX_EXPORT_DEPTH.
+ * - `columns`: comma-separated metadata to add besides path and type: `extension`,
+ *   `size` and `modified`. Defaults to all of them for JSON and CSV and to none for
+ *   Markdown and ASCII, which are meant to be read; pass it empty for none.
+ * - `download`: send the export as an attachment named after the folder.
+ *
+ * Folders report their recursive totals as their size and modification time.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const treePath = searchParams.get('path') ?? ROOT_KEY;
+    const format = searchParams.get('format') || 'json';
+    if (!isExportFormat(format)) {
+      throw new BadRequestError(
+        `Invalid format: expected one of ${EXPORT_FORMATS.join(', ')}.`
+      );
+    }
+    const depth = parseIntegerParam(
+      searchParams.get('depth'),
+      'depth',
+      MAX_EXPORT_DEPTH,
+      0,
+      MAX_EXPORT_DEPTH
+    );
+    const columns =
+      parseColumns(searchParams.get('columns')) ??
+      defaultExportColumns(format);
+    const download = parseBooleanParam(
+      searchParams.get('download'),
+      'download',
+      false
+    );
+    const filter = filterFromSearchParams(root, searchParams);
+    const order = sortOrderFromSearchParams(searchParams);
+
+    await ensureTreeOnDisk(root);
+
+    const relativePath = fromTreePath(treePath);
+    const absolutePath = path.join(root.directory, relativePath);
+    await assertFollowedPath(filter, relativePath);
+
+    const stats = await fs.stat(absolutePath);
+    if (!stats.isDirectory()) {
+      throw new BadRequestError(`${treePath} is not a folder.`);
+    }
+
+    const folder = await readFolder(
+      absolutePath,
+      relativePath,
+      filter,
+      order,
+      depth,
+      0,
+      Number.MAX_SAFE_INTEGER
+    );
+    if (!relativePath) {
+      folder.name = root.label;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Cache-Control': 'no-store',
+    };
+    if (download) {
+      const filename = `${folder.name}.${EXPORT_FILE_EXTENSIONS[format]}`;
+      // `filename*` carries the real name; `filename` is a fallback for old clients.
+      headers['Content-Disposition'] = [
+        'attachment',
+        `filename="${filename.replace(/[^\w.-]/g, '_')}"`,
+        `filename*=UTF-8''${encodeURIComponent(filename)}`,
+      ].join('; ');
+    }
+
+    return new Response(exportTree(folder, format, columns), { headers });
+  } catch (error) {
+    return errorResponse(error, 'Failed to export the file tree.');
+  }
+}
+
+/** Null when the parameter is missing, so the format's default applies. */
+function parseColumns(value: string | null): ExportColumn[] | null {
+  if (value === null) {
+    return null;
+  }
+
+  const columns: ExportColumn[] = [];
+  value
+    .split(',')
+    .map((column) => column.trim())
+    .filter(Boolean)
+    .forEach((column) => {
+      if (!isExportColumn(column)) {
+        const expected = EXPORT_COLUMNS.join(', ');
+        throw new BadRequestError(
+          `Invalid column: ${column}. Expected any of ${expected}.`
+        );
+      }
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    });
+  return columns;
+}
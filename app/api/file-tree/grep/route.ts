@@ -0,0 +1,139 @@
+import { NextRequest } from 'next/server';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { GrepEvent } from '../../../../types/fileTree';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import { compileGrepPattern, grepTree } from '../../../../lib/fileTree/grep';
+import {
+  parseBooleanParam,
+  parseIntegerParam,
+} from '../../../../lib/fileTree/requestParams';
+import { ensureTreeOnDisk, resolveRoot } from '../../../../lib/fileTree/roots';
+import { assertFollowedPath } from '../../../../lib/fileTree/symlinks';
+import { filterFromSearchParams } from '../../../../lib/fileTree/treeFilter';
+import { fromTreePath, ROOT_KEY } from '../../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Searches file contents under a folder and streams the matches as they are found, as
+ * newline-delimited JSON `GrepEvent`s: one `file` event per file with matches, then
+ * `done`, or `error` if the search fails part-way.
+ *
+ * Query parameters:
+ * - `root`, `path` and `showHidden`: as for /api/file-tree. Only files the tree would
+ *   list are searched.
+ * - `q`: the text to look for, matched literally on each line.
+ * - `regex`: treat `q` as a JavaScript regular expression instead.
+ * - `caseSensitive`: match case. Off by default.
+ * - `include`: comma-separated globs; only files matching one of them are searched.
+ * - `exclude`: comma-separated globs for files and folders to leave out.
+ * - `limit`: stop after this many matching lines.
+ *
+ * Binary files and files over MAX_GREP_FILE_BYTES are skipped and only counted. Lines
+ * are matched off the server's thread, so a pattern that backtracks without end ends
+ * the search with an `error` event rather than stalling the server. The search stops as
+ * soon as the client disconnects.
+ */
+export async function GET(request: NextRequest) {
+  let stream: ReadableStream<Uint8Array>;
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const treePath = searchParams.get('path') || ROOT_KEY;
+    const query = searchParams.get('q') ?? '';
+    if (!query) {
+      throw new BadRequestError('Missing q.');
+    }
+    const pattern = compileGrepPattern(
+      query,
+      parseBooleanParam(searchParams.get('regex'), 'regex', false),
+      parseBooleanParam(
+        searchParams.get('caseSensitive'),
+        'caseSensitive',
+        false
+      )
+    );
+    const include = parseGlobs(searchParams.get('include'));
+    const exclude = parseGlobs(searchParams.get('exclude'));
+    const limit = parseIntegerParam(
+      searchParams.get('limit'),
+      'limit',
+      DEFAULT_LIMIT,
+      1,
+      MAX_LIMIT
+    );
+    const filter = filterFromSearchParams(root, searchParams);
+
+    await ensureTreeOnDisk(root);
+
+    const relativePath = fromTreePath(treePath);
+    await assertFollowedPath(filter, relativePath);
+    const stats = await fs.stat(path.join(root.directory, relativePath));
+    if (!stats.isDirectory()) {
+      throw new BadRequestError(`${treePath} is not a folder.`);
+    }
+
+    const controller = new AbortController();
+    request.signal.addEventListener('abort', () => controller.abort());
+
+    stream = new ReadableStream({
+      async start(streamController) {
+        const send = (event: GrepEvent) => {
+          if (!controller.signal.aborted) {
+            streamController.enqueue(
+              encoder.encode(`${JSON.stringify(event)}\n`)
+            );
+          }
+        };
+
+        try {
+          const summary = await grepTree(
+            root.directory,
+            relativePath,
+            filter,
+            { pattern, include, exclude, limit },
+            controller.signal,
+            (filePath, matches) =>
+              send({ type: 'file', path: filePath, matches })
+          );
+          send({ type: 'done', ...summary });
+        } catch (error) {
+          if (error instanceof BadRequestError) {
+            send({ type: 'error', message: error.message });
+          } else {
+            console.error('Content search failed:', error);
+            send({ type: 'error', message: 'Failed to search file contents.' });
+          }
+        }
+        if (!controller.signal.aborted) {
+          streamController.close();
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to search file contents.');
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function parseGlobs(value: string | null): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { HistoryResponse } from '../../../../types/fileTree';
+import {
+  HISTORY_SIZE,
+  readHistory,
+} from '../../../../lib/fileTree/changeHistory';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import {
+  parseBooleanParam,
+  parseIntegerParam,
+} from '../../../../lib/fileTree/requestParams';
+import { resolveRoot } from '../../../../lib/fileTree/roots';
+import { fromTreePath } from '../../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Changes the file watcher has seen under a root, newest first. Only changes made while
+ * the root was being watched are known, and only the last HISTORY_SIZE of them.
+ *
+ * Query parameters:
+ * - `root` and `showHidden`: as for /api/file-tree/watch.
+ * - `since`: only changes after this time, as an ISO date or milliseconds since the
+ *   epoch.
+ * - `path`: only changes to this entry or anything under it. A rename counts when
+ *   either its old or its new path matches.
+ * - `limit`: maximum number of changes to return.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const showHidden = parseBooleanParam(
+      searchParams.get('showHidden'),
+      'showHidden',
+      false
+    );
+    const limit = parseIntegerParam(
+      searchParams.get('limit'),
+      'limit',
+      DEFAULT_LIMIT,
+      1,
+      HISTORY_SIZE
+    );
+    const since = parseSince(searchParams.get('since'));
+    const path = searchParams.get('path') || null;
+    if (path !== null) {
+      fromTreePath(path);
+    }
+
+    const events = readHistory(root, showHidden, { since, path, limit });
+    return NextResponse.json<HistoryResponse>({ events });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read the change history.');
+  }
+}
+
+function parseSince(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new BadRequestError(
+      'Invalid since: expected an ISO date or milliseconds since the epoch.'
+    );
+  }
+  return time;
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import type { MetricsResponse } from '../../../../types/fileTree';
+import { errorResponse } from '../../../../lib/fileTree/errors';
+import { readTreeIndexMetrics } from '../../../../lib/fileTree/treeIndex';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * How the server's tree indexes are being kept current: for every cached index, how
+ * many full and incremental scans it took, how long they took, and the last one. A
+ * full scan walks the whole root and an incremental one only the folders a change
+ * touched, so comparing the two shows what the watcher saves on a large tree.
+ */
+export async function GET() {
+  try {
+    const response: MetricsResponse = { indexes: readTreeIndexMetrics() };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, 'Failed to read scan metrics.');
+  }
+}
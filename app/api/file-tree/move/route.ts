@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  MoveEntriesRequest,
+  MoveEntriesResponse,
+  TreePatch,
+} from '../../../../types/fileTree';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import { moveEntry } from '../../../../lib/fileTree/mutations';
+import { resolveRoot } from '../../../../lib/fileTree/roots';
+import { filterFromSearchParams } from '../../../../lib/fileTree/treeFilter';
+
+/**
+ * Moves one or more entries into a folder, keeping their names. Used by drag and drop.
+ * Body: `{ paths, targetPath }`.
+ *
+ * Each move goes through the same traversal checks as PATCH /api/file-tree. Entries are
+ * moved in order and the first failure aborts the rest; whatever did move is still
+ * reported to every client by the watcher.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const filter = filterFromSearchParams(root, searchParams);
+
+    let body: MoveEntriesRequest;
+    try {
+      body = await request.json();
+    } catch {
+      throw new BadRequestError('Expected a JSON object body.');
+    }
+
+    if (
+      !body ||
+      typeof body.targetPath !== 'string' ||
+      !Array.isArray(body.paths) ||
+      body.paths.length === 0 ||
+      body.paths.some((treePath) => typeof treePath !== 'string')
+    ) {
+      throw new BadRequestError('Expected { paths: string[], targetPath }.');
+    }
+
+    const patches: TreePatch[] = [];
+    for (const treePath of body.paths) {
+      const name = treePath.slice(treePath.lastIndexOf('/') + 1);
+      patches.push(
+        await moveEntry(root, treePath, body.targetPath, name, filter)
+      );
+    }
+
+    return NextResponse.json<MoveEntriesResponse>({ patches });
+  } catch (error) {
+    return errorResponse(error, 'Failed to move entries.');
+  }
+}
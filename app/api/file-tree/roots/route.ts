@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import type { TreeRootSummary } from '../../../../types/fileTree';
+import { errorResponse } from '../../../../lib/fileTree/errors';
+import { findGitRepository } from '../../../../lib/fileTree/gitStatus';
+import { ensureTreeOnDisk, getRoots } from '../../../../lib/fileTree/roots';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists the configured roots for the explorer's root switcher. Only ids, labels and
+ * whether a root is under git are exposed; the directories they map to stay on the
+ * server. The configuration is cached for the life of the server process (see
+ * `getRoots`), but git state is checked on every request, since a root can become a
+ * repository, or stop being one, while the server runs.
+ */
+export async function GET() {
+  try {
+    const roots = await getRoots();
+    const summaries = await Promise.all(
+      roots.map(async (root): Promise<TreeRootSummary> => {
+        await ensureTreeOnDisk(root);
+        return {
+          id: root.id,
+          label: root.label,
+          isGitRepository: (await findGitRepository(root.directory)) !== null,
+        };
+      })
+    );
+    return NextResponse.json({ roots: summaries });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read root configuration.');
+  }
+}
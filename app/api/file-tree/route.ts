@@ -1,107 +1,164 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import path from 'node:path';
 import { promises as fs } from 'node:fs';
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { FolderNode, TreeNode } from '../../../types/fileTree';
-
-const execFileAsync = promisify(execFile);
+import type { CreateEntryRequest, MutationResponse, UpdateEntryRequest } from '../../../types/fileTree';
+import { BadRequestError, errorResponse } from '../../../lib/fileTree/errors';
+import { createEntry, deleteEntry, moveEntry } from '../../../lib/fileTree/mutations';
+import { readFolder, seedAggregates } from '../../../lib/fileTree/readTree';
+import { parseIntegerParam, sortOrderFromSearchParams } from '../../../lib/fileTree/requestParams';
+import { ensureTreeOnDisk, resolveRoot } from '../../../lib/fileTree/roots';
+import { assertFollowedPath } from '../../../lib/fileTree/symlinks';
+import { filterFromSearchParams } from '../../../lib/fileTree/treeFilter';
+import { findTreeIndex, readTreeIndex } from '../../../lib/fileTree/treeIndex';
+import { fromTreePath, ROOT_KEY } from '../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 8;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Returns a single folder level rather than the whole tree.
+ *
+ * Query parameters:
+ * - `root`: id of the configured root to read from. Defaults to the first root.
+ * - `path`: tree path of the folder to read (`root`, `root/src`, ...). Defaults to the root.
+ * - `depth`: how many levels of children to include. Folders past the limit come back
+ *   unloaded, with `childCount`/`hasChildren` hints and a `nextCursor` for their first page.
+ * - `cursor`/`limit`: pagination over the requested folder's direct children, so huge
+ *   directories can be loaded a page at a time.
+ * - `showHidden`: also list dot-entries and ignored entries, flagged with `ignored`.
+ *   The mutation handlers below accept it too, for the nodes they send back.
+ * - `sort`/`order`/`foldersFirst`: `name` (natural, so `file2` comes before `file10`), `size`,
+ *   `modified` or `extension`; `asc` or `desc`; whether folders stay on top. Defaults to
+ *   `name`, `asc`, folders first. Cursors are only valid for the order they were issued in.
+ *
+ * Symlinks are listed as `symlink` nodes, except links to folders inside the root when the
+ * root sets `followSymlinks`; those are listed as folders with a `linkTarget`.
+ *
+ * Folder totals come from the shared tree index when there is one (see `readTreeIndex`),
+ * so a listing does not walk everything below the folder. Loading the root builds the
+ * index, which the watcher the explorer opens next then keeps current.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const treePath = searchParams.get('path') ?? ROOT_KEY;
+    const depth = parseIntegerParam(searchParams.get('depth'), 'depth', DEFAULT_DEPTH, 0, MAX_DEPTH);
+    const offset = parseIntegerParam(searchParams.get('cursor'), 'cursor', 0, 0, Number.MAX_SAFE_INTEGER);
+    const limit = parseIntegerParam(searchParams.get('limit'), 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+    const filter = filterFromSearchParams(root, searchParams);
+    const order = sortOrderFromSearchParams(searchParams);
+
+    await ensureTreeOnDisk(root);
+
+    const relativePath = fromTreePath(treePath);
+    const absolutePath = path.join(root.directory, relativePath);
+    await assertFollowedPath(filter, relativePath);
+
+    const stats = await fs.stat(absolutePath);
+    if (!stats.isDirectory()) {
+      throw new BadRequestError(`${treePath} is not a folder.`);
+    }
 
-const ROOT_KEY = 'root';
-const SCRIPT_PATH = path.join(process.cwd(), 'scripts', 'create-file-tree.sh');
-const TREE_ROOT_DIRECTORY = path.join(process.cwd(), 'tmp', 'runtime-file-tree');
+    const index = relativePath
+      ? await findTreeIndex(root, filter.showHidden)
+      : await readTreeIndex(root, filter.showHidden);
+    if (index) {
+      seedAggregates(filter, index);
+    }
 
-export async function GET() {
-  try {
-    await ensureTreeOnDisk();
-    const tree = await readTree();
-    return NextResponse.json(tree);
+    const folder = await readFolder(absolutePath, relativePath, filter, order, depth, offset, limit);
+    if (!relativePath) {
+      folder.name = root.label;
+    }
+    return NextResponse.json(folder);
   } catch (error) {
-    console.error('Failed to build file tree', error);
-    return NextResponse.json(
-      { message: 'Failed to build file tree. See server logs for details.' },
-      { status: 500 },
-    );
+    return errorResponse(error, 'Failed to build file tree.');
   }
 }
 
-async function ensureTreeOnDisk() {
-  await fs.mkdir(path.dirname(TREE_ROOT_DIRECTORY), { recursive: true });
-  await execFileAsync(SCRIPT_PATH, [TREE_ROOT_DIRECTORY]);
-}
+/**
+ * Creates an empty file or folder. Body: `{ parentPath, name, type }`.
+ *
+ * Like every mutation below, this responds with the patch describing the change so the
+ * caller can apply it right away; other clients receive it through the watcher.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const body = await readJsonBody<CreateEntryRequest>(request);
+    if (typeof body.parentPath !== 'string' || (body.type !== 'file' && body.type !== 'folder')) {
+      throw new BadRequestError('Expected { parentPath, name, type: "file" | "folder" }.');
+    }
 
-async function readTree(): Promise<FolderNode> {
-  const stats = await fs.stat(TREE_ROOT_DIRECTORY);
-  if (!stats.isDirectory()) {
-    throw new Error(`Expected ${TREE_ROOT_DIRECTORY} to be a directory.`);
+    const filter = filterFromSearchParams(root, searchParams);
+    const patch = await createEntry(root, body.parentPath, body.name, body.type, filter);
+    return NextResponse.json<MutationResponse>({ patch }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create entry.');
   }
-
-  return {
-    type: 'folder',
-    name: 'generated-tree',
-    path: ROOT_KEY,
-    children: await readDirectoryContents(TREE_ROOT_DIRECTORY, ''),
-  };
 }
 
-async function readDirectoryContents(absolutePath: string, relativePath: string): Promise<TreeNode[]> {
-  const entries = await fs.readdir(absolutePath, { withFileTypes: true });
-
-  const sortedEntries = entries.sort((a, b) => {
-    if (a.isDirectory() && !b.isDirectory()) return -1;
-    if (!a.isDirectory() && b.isDirectory()) return 1;
-    return a.name.localeCompare(b.name);
-  });
-
-  const nodes: TreeNode[] = [];
-
-  for (const entry of sortedEntries) {
-    if (entry.name.startsWith('.')) {
-      continue;
-    }
-
-    const entryAbsolute = path.join(absolutePath, entry.name);
-    const entryRelative = relativePath ? path.join(relativePath, entry.name) : entry.name;
-
-    if (entry.isDirectory()) {
-      nodes.push({
-        type: 'folder',
-        name: entry.name,
-        path: toTreePath(entryRelative),
-        children: await readDirectoryContents(entryAbsolute, entryRelative),
-      });
-      continue;
-    }
-
-    if (!entry.isFile()) {
-      continue;
+/**
+ * Renames and/or moves an entry. Body: `{ path, name?, parentPath? }`; whichever of
+ * `name` and `parentPath` is omitted keeps its current value.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const body = await readJsonBody<UpdateEntryRequest>(request);
+    if (typeof body.path !== 'string' || (body.name === undefined && body.parentPath === undefined)) {
+      throw new BadRequestError('Expected { path, name?, parentPath? }.');
     }
 
-    const stats = await fs.stat(entryAbsolute);
+    const separator = body.path.lastIndexOf('/');
+    const currentParentPath = body.path.slice(0, separator);
+    const currentName = body.path.slice(separator + 1);
 
-    nodes.push({
-      type: 'file',
-      name: entry.name,
-      path: toTreePath(entryRelative),
-      extension: extractExtension(entry.name),
-      sizeInBytes: stats.size,
-      modifiedAt: stats.mtime.toISOString(),
-    });
+    const patch = await moveEntry(
+      root,
+      body.path,
+      body.parentPath ?? currentParentPath,
+      body.name ?? currentName,
+      filterFromSearchParams(root, searchParams),
+    );
+    return NextResponse.json<MutationResponse>({ patch });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update entry.');
   }
-
-  return nodes;
 }
 
-function toTreePath(relativePath: string): string {
-  if (!relativePath) {
-    return ROOT_KEY;
-  }
+/** Deletes the entry at `?path=`, recursively for folders. */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const treePath = searchParams.get('path');
+    if (!treePath) {
+      throw new BadRequestError('Missing path.');
+    }
 
-  const normalized = relativePath.split(path.sep).join('/');
-  return `${ROOT_KEY}/${normalized}`;
+    const patch = await deleteEntry(root, treePath);
+    return NextResponse.json<MutationResponse>({ patch });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete entry.');
+  }
 }
 
-function extractExtension(filename: string): string | null {
-  const ext = path.extname(filename).replace('.', '');
-  return ext ? ext : null;
+async function readJsonBody<T>(request: NextRequest): Promise<T> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === 'object') {
+      return body as T;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new BadRequestError('Expected a JSON object body.');
 }
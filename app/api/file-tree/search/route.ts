@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SearchResponse } from '../../../../types/fileTree';
+import { errorResponse } from '../../../../lib/fileTree/errors';
+import {
+  parseBooleanParam,
+  parseIntegerParam,
+} from '../../../../lib/fileTree/requestParams';
+import { resolveRoot } from '../../../../lib/fileTree/roots';
+import { searchPaths } from '../../../../lib/fileTree/searchIndex';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Fuzzy search over every file and folder name under a root, including folders the
+ * client has never loaded.
+ *
+ * Query parameters:
+ * - `root`: id of the configured root to search. Defaults to the first root.
+ * - `q`: the query. Its characters must appear in order in the entry's path; matches in
+ *   the entry's own name, at word boundaries and in runs rank higher.
+ * - `limit`: maximum number of results, best first.
+ * - `showHidden`: also search dot-entries and ignored entries.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const query = (searchParams.get('q') ?? '').trim();
+    const limit = parseIntegerParam(
+      searchParams.get('limit'),
+      'limit',
+      DEFAULT_LIMIT,
+      1,
+      MAX_LIMIT
+    );
+    const showHidden = parseBooleanParam(
+      searchParams.get('showHidden'),
+      'showHidden',
+      false
+    );
+
+    const results = query
+      ? await searchPaths(root, showHidden, query, limit)
+      : [];
+    return NextResponse.json<SearchResponse>({ results });
+  } catch (error) {
+    return errorResponse(error, 'Failed to search the file tree.');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SnapshotComparison } from '../../../../../types/fileTree';
+import {
+  BadRequestError,
+  errorResponse,
+} from '../../../../../lib/fileTree/errors';
+import { resolveRoot } from '../../../../../lib/fileTree/roots';
+import { compareSnapshots } from '../../../../../lib/fileTree/snapshots';
+import { fromTreePath, ROOT_KEY } from '../../../../../lib/fileTree/treePaths';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * What changed between two snapshots of a root, sorted by path.
+ *
+ * Query parameters:
+ * - `root`: as for /api/file-tree.
+ * - `from`: the older snapshot.
+ * - `to`: the newer snapshot. Defaults to the tree as it is now.
+ * - `path`: only changes to this entry or anything under it, on either side of a move.
+ *
+ * Moves are only detected between snapshots taken with hashing; without it, a moved
+ * file shows up as removed and added.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const from = searchParams.get('from');
+    if (!from) {
+      throw new BadRequestError('Missing from.');
+    }
+    const to = searchParams.get('to') || null;
+    const treePath = searchParams.get('path') || ROOT_KEY;
+    fromTreePath(treePath);
+
+    const changes = await compareSnapshots(root, from, to, treePath);
+    return NextResponse.json<SnapshotComparison>({ from, to, changes });
+  } catch (error) {
+    return errorResponse(error, 'Failed to compare snapshots.');
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CreateSnapshotRequest,
+  SnapshotListResponse,
+  SnapshotSummary,
+} from '../../../../types/fileTree';
+import { BadRequestError, errorResponse } from '../../../../lib/fileTree/errors';
+import { parseBooleanParam } from '../../../../lib/fileTree/requestParams';
+import { resolveRoot } from '../../../../lib/fileTree/roots';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  listSnapshots,
+} from '../../../../lib/fileTree/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+/** Lists a root's snapshots, newest first. */
+export async function GET(request: NextRequest) {
+  try {
+    const root = await resolveRoot(request.nextUrl.searchParams.get('root'));
+    const snapshots = await listSnapshots(root);
+    return NextResponse.json<SnapshotListResponse>({ snapshots });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list snapshots.');
+  }
+}
+
+/**
+ * Records the root as it is now. Body: `{ name, hash? }`. With `hash`, every file is
+ * read to hash its contents, which is slower but lets comparisons spot moved files and
+ * ignore files that were only touched. `showHidden` in the query decides which entries
+ * are recorded, as it does for listing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const showHidden = parseBooleanParam(
+      searchParams.get('showHidden'),
+      'showHidden',
+      false
+    );
+
+    let body: CreateSnapshotRequest;
+    try {
+      body = await request.json();
+    } catch {
+      throw new BadRequestError('Expected a JSON object body.');
+    }
+    if (!body || typeof body.name !== 'string') {
+      throw new BadRequestError('Expected { name, hash? }.');
+    }
+
+    const snapshot = await createSnapshot(
+      root,
+      body.name,
+      showHidden,
+      Boolean(body.hash)
+    );
+    return NextResponse.json<SnapshotSummary>(snapshot, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create snapshot.');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const root = await resolveRoot(searchParams.get('root'));
+    const name = searchParams.get('name');
+    if (!name) {
+      throw new BadRequestError('Missing name.');
+    }
+
+    await deleteSnapshot(root, name);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete snapshot.');
+  }
+}
@@ -1,31 +1,93 @@
 import { NextRequest } from 'next/server';
 import path from 'node:path';
 import { watch } from 'node:fs';
-import { promises as fs } from 'node:fs';
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { FolderNode, TreeNode } from '../../../../types/fileTree';
+import type { FSWatcher } from 'node:fs';
+import type { TreePatch, WatchEvent } from '../../../../types/fileTree';
+import { recordChanges } from '../../../../lib/fileTree/changeHistory';
+import type { ChangeRecord } from '../../../../lib/fileTree/changeHistory';
+import { errorResponse } from '../../../../lib/fileTree/errors';
+import { findGitRepository } from '../../../../lib/fileTree/gitStatus';
+import { diffIndexes } from '../../../../lib/fileTree/indexDiff';
+import {
+  ensureTreeOnDisk,
+  resolveRoot,
+} from '../../../../lib/fileTree/roots';
+import type { TreeRoot } from '../../../../lib/fileTree/roots';
+import {
+  applyPatchesToSearchIndex,
+  releaseSearchIndex,
+  retainSearchIndex,
+} from '../../../../lib/fileTree/searchIndex';
+import { parseBooleanParam } from '../../../../lib/fileTree/requestParams';
+import {
+  readTreeIndex,
+  releaseTreeIndex,
+  rescanTreeIndex,
+  retainTreeIndex,
+} from '../../../../lib/fileTree/treeIndex';
+import type { TreeIndex } from '../../../../lib/fileTree/treeIndex';
+
+export const dynamic = 'force-dynamic';
 
-const execFileAsync = promisify(execFile);
-
-const ROOT_KEY = 'root';
-const SCRIPT_PATH = path.join(process.cwd(), 'scripts', 'create-file-tree.sh');
-const TREE_ROOT_DIRECTORY = path.join(
-  process.cwd(),
-  'tmp',
-  'runtime-file-tree'
-);
-
-const clients = new Set<ReadableStreamDefaultController>();
-
-let debounceTimer: NodeJS.Timeout | null = null;
 const DEBOUNCE_MS = 1000;
+/** Patch events kept per root for clients resuming with `Last-Event-ID`. */
+const EVENT_BUFFER_SIZE = 500;
+/** Comment frames keep idle connections from being closed by proxies. */
+const HEARTBEAT_MS = 15000;
+/** Sent as `retry:`, the reconnection delay for clients that rely on EventSource's own. */
+const RETRY_MS = 1000;
+/** How long a root stays watched after its last client leaves, so it can resume. */
+const IDLE_STOP_MS = 30000;
 
 const encoder = new TextEncoder();
+const heartbeatFrame = encoder.encode(': heartbeat\n\n');
 
-let fileWatcher: ReturnType<typeof watch> | null = null;
-
-let lastTreeHash: string | null = null;
+/**
+ * Everything we keep per watched root. A root is only watched while at least one
+ * client is subscribed to it.
+ */
+type RootWatch = {
+  key: string;
+  root: TreeRoot;
+  showHidden: boolean;
+  clients: Set<ReadableStreamDefaultController>;
+  fileWatcher: FSWatcher | null;
+  /**
+   * Set while the watcher is being set up, which waits for the first full scan. Clients
+   * arriving meanwhile wait on it instead of starting a second watcher.
+   */
+  setup: Promise<void> | null;
+  /** Set once the root is no longer watched, so a setup still running backs out. */
+  stopped: boolean;
+  /** Watches `.git` for index updates when it lies outside the root. */
+  gitWatcher: FSWatcher | null;
+  debounceTimer: NodeJS.Timeout | null;
+  /**
+   * Paths (relative to the root) reported since the last scan, or null when the next
+   * scan has to cover the whole root.
+   */
+  changedPaths: Set<string> | null;
+  // Scans are chained so two debounced batches never diff against the same snapshot.
+  scanQueue: Promise<void>;
+  /**
+   * Event ids are `<epoch>-<sequence>`. The epoch changes whenever the root starts being
+   * watched again, so an id from an earlier watch, or an earlier server process, is
+   * never mistaken for one in the buffer.
+   */
+  epoch: string;
+  lastSequence: number;
+  /** The most recent patch events, oldest first. */
+  eventBuffer: BufferedEvent[];
+  heartbeatTimer: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+};
+
+type BufferedEvent = {
+  sequence: number;
+  message: Uint8Array;
+};
+
+const rootWatches = new Map<string, RootWatch>();
 
 /**
  * Real-time file tree updates via Server-Sent Events.
@@ -36,27 +98,85 @@ let lastTreeHash: string | null = null;
  *
  * For file watching, I'm using Node's built-in fs.watch. It's zero dependencies and works
  * well for watching a single directory tree recursively.
+ *
+ * Rather than pushing the whole tree on every change, the watcher keeps the shared tree
+ * index current, rescanning only the folders fs.watch reports changes in, and sends only
+ * the difference as typed patches. Clients already have
+ * the tree from /api/file-tree and apply the patches in place, so both bandwidth and
+ * re-render cost scale with the size of the change instead of the size of the tree.
+ *
+ * The `root` query parameter picks which configured root to watch; each root gets its
+ * own watcher and index, shared by every client subscribed to it. While a root is
+ * watched, its search index is kept current from the same patches.
+ *
+ * With `showHidden`, patches also cover dot-entries and ignored entries. Clients with and
+ * without it see different trees, so each gets its own watcher.
+ *
+ * In a git working tree, each scan also rereads `git status`, and a changed status is
+ * sent as changed metadata like any other.
+ *
+ * Every change is also logged for /api/file-tree/history.
+ *
+ * Patch events are numbered, and the last EVENT_BUFFER_SIZE of them are kept. A client
+ * reconnecting with `Last-Event-ID` (or `lastEventId` in the query, for clients that
+ * open a new EventSource rather than letting it reconnect) gets the events it missed.
+ * When they are no longer buffered, it gets a `reset` event and has to reload the tree.
+ * Either way, `connected` comes last and carries the current id. A root stays watched
+ * for a while after its last client leaves, so a client on a flaky connection can
+ * still resume.
  */
 export async function GET(request: NextRequest) {
+  let root: TreeRoot;
+  let showHidden: boolean;
+  let lastEventId: string | null;
+  try {
+    const { searchParams } = request.nextUrl;
+    root = await resolveRoot(searchParams.get('root'));
+    showHidden = parseBooleanParam(
+      searchParams.get('showHidden'),
+      'showHidden',
+      false
+    );
+    lastEventId =
+      request.headers.get('last-event-id') || searchParams.get('lastEventId');
+  } catch (error) {
+    return errorResponse(error, 'Failed to start file watcher.');
+  }
+
+  const rootWatch = getRootWatch(root, showHidden);
+
   const stream = new ReadableStream({
     start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`));
+      if (
+        lastEventId !== null &&
+        !replayEvents(rootWatch, controller, lastEventId)
+      ) {
+        controller.enqueue(encodeEvent({ type: 'reset' }));
+      }
       controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: 'connected' })}\n\n`)
+        encodeEvent({ type: 'connected' }, currentEventId(rootWatch))
       );
 
-      clients.add(controller);
-
-      sendTreeUpdate(controller);
+      rootWatch.clients.add(controller);
+      if (rootWatch.idleTimer) {
+        clearTimeout(rootWatch.idleTimer);
+        rootWatch.idleTimer = null;
+      }
 
-      if (!fileWatcher) {
-        setupFileWatcher();
+      if (!rootWatch.fileWatcher && !rootWatch.setup) {
+        setupFileWatcher(rootWatch);
       }
 
       request.signal.addEventListener('abort', () => {
-        clients.delete(controller);
-        if (clients.size === 0 && fileWatcher) {
-          fileWatcher.close();
-          fileWatcher = null;
+        rootWatch.clients.delete(controller);
+        if (rootWatch.clients.size === 0 && !rootWatch.idleTimer) {
+          rootWatch.idleTimer = setTimeout(() => {
+            rootWatch.idleTimer = null;
+            if (rootWatch.clients.size === 0) {
+              stopWatching(rootWatch);
+            }
+          }, IDLE_STOP_MS);
         }
         controller.close();
       });
@@ -72,213 +192,350 @@ export async function GET(request: NextRequest) {
   });
 }
 
-function setupFileWatcher() {
-  fs.mkdir(path.dirname(TREE_ROOT_DIRECTORY), { recursive: true })
-    .then(() => {
-      console.log(
-        `👀 File watcher initialized, watching: ${TREE_ROOT_DIRECTORY}`
-      );
+function getRootWatch(root: TreeRoot, showHidden: boolean): RootWatch {
+  const key = `${root.id}:${showHidden}`;
+  const existing = rootWatches.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const rootWatch: RootWatch = {
+    key,
+    root,
+    showHidden,
+    clients: new Set(),
+    fileWatcher: null,
+    setup: null,
+    stopped: false,
+    gitWatcher: null,
+    debounceTimer: null,
+    changedPaths: new Set(),
+    scanQueue: Promise.resolve(),
+    epoch: Date.now().toString(36),
+    lastSequence: 0,
+    eventBuffer: [],
+    heartbeatTimer: null,
+    idleTimer: null,
+  };
+  rootWatch.heartbeatTimer = setInterval(
+    () => sendToClients(rootWatch, heartbeatFrame),
+    HEARTBEAT_MS
+  );
+  rootWatches.set(key, rootWatch);
+  retainTreeIndex(root, showHidden);
+  retainSearchIndex(root, showHidden);
+  return rootWatch;
+}
+
+function currentEventId(rootWatch: RootWatch): string {
+  return `${rootWatch.epoch}-${rootWatch.lastSequence}`;
+}
+
+/**
+ * Sends a reconnecting client the patch events after `lastEventId`. Returns false when
+ * that is impossible: the id is from another epoch, or the events after it have
+ * already been dropped from the buffer.
+ */
+function replayEvents(
+  rootWatch: RootWatch,
+  controller: ReadableStreamDefaultController,
+  lastEventId: string
+): boolean {
+  const separator = lastEventId.lastIndexOf('-');
+  const epoch = lastEventId.slice(0, separator);
+  const sequence = Number(lastEventId.slice(separator + 1));
+  if (
+    separator <= 0 ||
+    epoch !== rootWatch.epoch ||
+    !Number.isInteger(sequence) ||
+    sequence > rootWatch.lastSequence
+  ) {
+    return false;
+  }
+
+  const { eventBuffer } = rootWatch;
+  const oldest = eventBuffer.length
+    ? eventBuffer[0].sequence
+    : rootWatch.lastSequence + 1;
+  if (sequence < oldest - 1) {
+    return false;
+  }
+
+  eventBuffer.forEach((event) => {
+    if (event.sequence > sequence) {
+      controller.enqueue(event.message);
+    }
+  });
+  return true;
+}
+
+function stopWatching(rootWatch: RootWatch) {
+  rootWatch.stopped = true;
+  if (rootWatch.fileWatcher) {
+    rootWatch.fileWatcher.close();
+    rootWatch.fileWatcher = null;
+  }
+  closeGitWatcher(rootWatch);
+  if (rootWatch.debounceTimer) {
+    clearTimeout(rootWatch.debounceTimer);
+    rootWatch.debounceTimer = null;
+  }
+  if (rootWatch.heartbeatTimer) {
+    clearInterval(rootWatch.heartbeatTimer);
+    rootWatch.heartbeatTimer = null;
+  }
+  rootWatch.changedPaths = new Set();
+  rootWatches.delete(rootWatch.key);
+  releaseTreeIndex(rootWatch.root, rootWatch.showHidden);
+  releaseSearchIndex(rootWatch.root, rootWatch.showHidden);
+}
+
+function setupFileWatcher(rootWatch: RootWatch) {
+  const { root } = rootWatch;
+
+  rootWatch.setup = ensureTreeOnDisk(root)
+    .then(async () => {
+      await readTreeIndex(root, rootWatch.showHidden);
+      // The last client may have left during the scan, and the root been unwatched.
+      if (rootWatch.stopped) {
+        return;
+      }
+
+      console.log(`👀 File watcher initialized, watching: ${root.directory}`);
 
-      fileWatcher = watch(
-        TREE_ROOT_DIRECTORY,
+      const fileWatcher = watch(
+        root.directory,
         { recursive: true },
         async (eventType, filename) => {
           if (!filename) return;
 
           console.log(`📁 File change detected: ${eventType} - ${filename}`);
-
-          if (debounceTimer) {
-            clearTimeout(debounceTimer);
-          }
-
-          debounceTimer = setTimeout(async () => {
-            try {
-              const tree = await readTree();
-
-              const treeHash = JSON.stringify(createTreeHash(tree));
-
-              if (treeHash === lastTreeHash) {
-                console.log('⏭️  Tree structure unchanged, skipping update');
-                return;
-              }
-
-              console.log(
-                '✅ Tree structure changed, sending update to clients'
-              );
-              lastTreeHash = treeHash;
-
-              const message = encoder.encode(
-                `data: ${JSON.stringify({ type: 'update', tree })}\n\n`
-              );
-
-              const deadClients: ReadableStreamDefaultController[] = [];
-              for (const client of Array.from(clients)) {
-                try {
-                  client.enqueue(message);
-                } catch (e) {
-                  deadClients.push(client);
-                }
-              }
-
-              deadClients.forEach((client) => clients.delete(client));
-            } catch (error) {
-              console.error('Error processing file change:', error);
-            }
-          }, DEBOUNCE_MS);
+          scheduleScan(rootWatch, filename);
         }
       );
+      rootWatch.fileWatcher = fileWatcher;
 
       fileWatcher.on('error', (error) => {
         console.error('File watcher error:', error);
 
-        if (fileWatcher) {
+        if (rootWatch.fileWatcher) {
           try {
-            fileWatcher.close();
+            rootWatch.fileWatcher.close();
           } catch (e) {}
-          fileWatcher = null;
+          rootWatch.fileWatcher = null;
 
           setTimeout(() => {
-            if (clients.size > 0) {
+            if (
+              rootWatch.clients.size > 0 &&
+              !rootWatch.stopped &&
+              !rootWatch.setup
+            ) {
               console.log('🔄 Restarting file watcher after error...');
-              setupFileWatcher();
+              setupFileWatcher(rootWatch);
+              // Whatever changed while nothing was watching is only found by a full scan.
+              scheduleScan(rootWatch, null);
             }
           }, 1000);
         }
 
-        const errorMsg = encoder.encode(
-          `data: ${JSON.stringify({
-            type: 'error',
-            message: error.message,
-          })}\n\n`
-        );
-        const deadClients: ReadableStreamDefaultController[] = [];
-        for (const client of Array.from(clients)) {
-          try {
-            client.enqueue(errorMsg);
-          } catch (e) {
-            deadClients.push(client);
-          }
-        }
-        deadClients.forEach((client) => clients.delete(client));
+        broadcast(rootWatch, { type: 'error', message: error.message });
       });
+
+      await watchGitIndex(rootWatch);
     })
     .catch((error) => {
       console.error('Failed to set up file watcher:', error);
+      broadcast(rootWatch, {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to watch',
+      });
+    })
+    .then(() => {
+      rootWatch.setup = null;
     });
 }
 
-async function sendTreeUpdate(controller: ReadableStreamDefaultController) {
-  try {
-    const tree = await readTree();
-    const message = encoder.encode(
-      `data: ${JSON.stringify({ type: 'update', tree })}\n\n`
-    );
-    controller.enqueue(message);
-  } catch (error) {
-    console.error('Failed to send tree update:', error);
-    const errorMsg = encoder.encode(
-      `data: ${JSON.stringify({
-        type: 'error',
-        message: error instanceof Error ? error.message : 'Failed to read tree',
-      })}\n\n`
-    );
-    controller.enqueue(errorMsg);
+/** `changedPath` is relative to the root; null asks for a scan of the whole root. */
+function scheduleScan(rootWatch: RootWatch, changedPath: string | null) {
+  if (rootWatch.debounceTimer) {
+    clearTimeout(rootWatch.debounceTimer);
   }
-}
-
-async function readTree(): Promise<FolderNode> {
-  const stats = await fs.stat(TREE_ROOT_DIRECTORY);
-  if (!stats.isDirectory()) {
-    throw new Error(`Expected ${TREE_ROOT_DIRECTORY} to be a directory.`);
+  if (changedPath === null) {
+    rootWatch.changedPaths = null;
+  } else if (rootWatch.changedPaths) {
+    rootWatch.changedPaths.add(changedPath);
   }
 
-  return {
-    type: 'folder',
-    name: 'generated-tree',
-    path: ROOT_KEY,
-    children: await readDirectoryContents(TREE_ROOT_DIRECTORY, ''),
-  };
+  rootWatch.debounceTimer = setTimeout(() => {
+    const { changedPaths } = rootWatch;
+    rootWatch.changedPaths = new Set();
+    rootWatch.scanQueue = rootWatch.scanQueue.then(() =>
+      broadcastChanges(
+        rootWatch,
+        changedPaths ? Array.from(changedPaths) : null
+      )
+    );
+  }, DEBOUNCE_MS);
 }
 
-async function readDirectoryContents(
-  absolutePath: string,
-  relativePath: string
-): Promise<TreeNode[]> {
-  const entries = await fs.readdir(absolutePath, { withFileTypes: true });
+/**
+ * Git statuses change when the index does, e.g. after `git add` or a commit, without
+ * anything in the working tree changing. A `.git` inside the root is already covered by
+ * the recursive watcher; one elsewhere, as when the root is a subfolder of the
+ * repository, gets a watcher of its own.
+ */
+async function watchGitIndex(rootWatch: RootWatch) {
+  closeGitWatcher(rootWatch);
 
-  const sortedEntries = entries.sort((a, b) => {
-    if (a.isDirectory() && !b.isDirectory()) return -1;
-    if (!a.isDirectory() && b.isDirectory()) return 1;
-    return a.name.localeCompare(b.name);
-  });
+  const repository = await findGitRepository(rootWatch.root.directory);
+  // The last client may have left while git was running.
+  if (!repository || !rootWatch.fileWatcher) {
+    return;
+  }
 
-  const nodes: TreeNode[] = [];
+  const relative = path.relative(
+    rootWatch.root.directory,
+    repository.gitDirectory
+  );
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return;
+  }
 
-  for (const entry of sortedEntries) {
-    if (entry.name.startsWith('.')) {
-      continue;
+  const gitWatcher = watch(repository.gitDirectory, (eventType, filename) => {
+    if (filename === 'index') {
+      console.log(`📁 Git index changed: ${eventType}`);
+      scheduleScan(rootWatch, null);
     }
+  });
+  gitWatcher.on('error', (error) => {
+    console.error('Git index watcher error:', error);
+    closeGitWatcher(rootWatch);
+  });
+  rootWatch.gitWatcher = gitWatcher;
+}
 
-    const entryAbsolute = path.join(absolutePath, entry.name);
-    const entryRelative = relativePath
-      ? path.join(relativePath, entry.name)
-      : entry.name;
-
-    if (entry.isDirectory()) {
-      nodes.push({
-        type: 'folder',
-        name: entry.name,
-        path: toTreePath(entryRelative),
-        children: await readDirectoryContents(entryAbsolute, entryRelative),
-      });
-      continue;
-    }
+function closeGitWatcher(rootWatch: RootWatch) {
+  if (rootWatch.gitWatcher) {
+    rootWatch.gitWatcher.close();
+    rootWatch.gitWatcher = null;
+  }
+}
+
+async function broadcastChanges(
+  rootWatch: RootWatch,
+  changedPaths: string[] | null
+) {
+  try {
+    const { previous, next, report } = await rescanTreeIndex(
+      rootWatch.root,
+      rootWatch.showHidden,
+      changedPaths
+    );
+    const patches = diffIndexes(previous, next);
+    console.log(
+      `⏱️  ${report.kind === 'full' ? 'Full' : 'Incremental'} scan read ${report.foldersRead} folders in ${report.durationMs}ms`
+    );
 
-    if (!entry.isFile()) {
-      continue;
+    if (patches.length === 0) {
+      console.log('⏭️  Tree structure unchanged, skipping update');
+      return;
     }
 
-    const stats = await fs.stat(entryAbsolute);
+    recordChanges(
+      rootWatch.root,
+      rootWatch.showHidden,
+      toChangeRecords(patches, previous)
+    );
 
-    nodes.push({
-      type: 'file',
-      name: entry.name,
-      path: toTreePath(entryRelative),
-      extension: extractExtension(entry.name),
-      sizeInBytes: stats.size,
-      modifiedAt: stats.mtime.toISOString(),
-    });
+    console.log(`✅ Sending ${patches.length} tree patches to clients`);
+    broadcast(rootWatch, { type: 'patch', patches });
+    await applyPatchesToSearchIndex(
+      rootWatch.root,
+      rootWatch.showHidden,
+      patches
+    );
+  } catch (error) {
+    console.error('Error processing file change:', error);
+  }
+}
+
+/** Patches are numbered and buffered for resuming clients; other events are not. */
+function broadcast(rootWatch: RootWatch, event: WatchEvent) {
+  if (event.type !== 'patch') {
+    sendToClients(rootWatch, encodeEvent(event));
+    return;
   }
 
-  return nodes;
+  const sequence = ++rootWatch.lastSequence;
+  const message = encodeEvent(event, currentEventId(rootWatch));
+  rootWatch.eventBuffer.push({ sequence, message });
+  if (rootWatch.eventBuffer.length > EVENT_BUFFER_SIZE) {
+    rootWatch.eventBuffer.shift();
+  }
+  sendToClients(rootWatch, message);
 }
 
-function toTreePath(relativePath: string): string {
-  if (!relativePath) {
-    return ROOT_KEY;
+function sendToClients(rootWatch: RootWatch, message: Uint8Array) {
+  const deadClients: ReadableStreamDefaultController[] = [];
+  for (const client of Array.from(rootWatch.clients)) {
+    try {
+      client.enqueue(message);
+    } catch (e) {
+      deadClients.push(client);
+    }
   }
 
-  const normalized = relativePath.split(path.sep).join('/');
-  return `${ROOT_KEY}/${normalized}`;
+  deadClients.forEach((client) => rootWatch.clients.delete(client));
 }
 
-function extractExtension(filename: string): string | null {
-  const ext = path.extname(filename).replace('.', '');
-  return ext ? ext : null;
+function encodeEvent(event: WatchEvent, id?: string): Uint8Array {
+  const idLine = id ? `id: ${id}\n` : '';
+  return encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`);
 }
 
-function createTreeHash(node: TreeNode): {
-  path: string;
-  name: string;
-  children?: any[];
-} {
-  if (node.type === 'file') {
-    return { path: node.path, name: node.name };
-  } else {
-    return {
-      path: node.path,
-      name: node.name,
-      children: node.children.map(createTreeHash),
-    };
-  }
+/**
+ * The history entries for a batch of patches. Folders report changed metadata whenever
+ * anything under them changes, which the entries for their contents already say.
+ */
+function toChangeRecords(
+  patches: TreePatch[],
+  previous: TreeIndex
+): ChangeRecord[] {
+  const records: ChangeRecord[] = [];
+  patches.forEach((patch) => {
+    switch (patch.op) {
+      case 'added':
+        records.push({
+          kind: 'added',
+          path: patch.path,
+          type: patch.node.type,
+        });
+        break;
+      case 'removed':
+        records.push({
+          kind: 'removed',
+          path: patch.path,
+          type: previous.get(patch.path)!.node.type,
+        });
+        break;
+      case 'renamed':
+        records.push({
+          kind: 'renamed',
+          path: patch.path,
+          from: patch.from,
+          type: patch.node.type,
+        });
+        break;
+      case 'metadata-changed':
+        if (patch.node.type !== 'folder') {
+          records.push({
+            kind: 'modified',
+            path: patch.path,
+            type: patch.node.type,
+          });
+        }
+        break;
+    }
+  });
+  return records;
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { ChangeEvent, ChangeKind } from '../../types/fileTree';
+import { fetchHistory } from './treeApi';
+import type { TreeScope } from './treeApi';
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  modified: 'Modified',
+};
+
+/**
+ * The "Activity" tab: what the watcher has changed under the root, newest first, from
+ * /api/file-tree/history. It is fetched again whenever `refreshKey` changes, which the
+ * explorer bumps for every batch of patches. Entries that still exist can be clicked to
+ * select them in the tree.
+ */
+export function ActivityFeed({
+  scope,
+  folder,
+  refreshKey,
+  onSelect,
+}: {
+  scope: TreeScope;
+  /** The folder "Only in" narrows the feed to, or null at the root. */
+  folder: { path: string; name: string } | null;
+  refreshKey: number;
+  onSelect: (path: string) => void;
+}) {
+  const [events, setEvents] = useState<ChangeEvent[]>([]);
+  const [onlyInFolder, setOnlyInFolder] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const path = onlyInFolder && folder ? folder.path : null;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    fetchHistory(scope, path, controller.signal)
+      .then((nextEvents) => {
+        setEvents(nextEvents);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [scope, path, refreshKey]);
+
+  return (
+    <section className="activity-feed" aria-label="Recent changes">
+      {folder && (
+        <label className="file-explorer__toggle">
+          <input
+            type="checkbox"
+            checked={onlyInFolder}
+            onChange={(event) => setOnlyInFolder(event.target.checked)}
+          />
+          <span>Only in {folder.name}</span>
+        </label>
+      )}
+      {error && (
+        <p className="activity-feed__status activity-feed__status--error">
+          Failed to load changes: {error}
+        </p>
+      )}
+      {!error && events.length === 0 && (
+        <p className="activity-feed__status">
+          {isLoading
+            ? 'Loading…'
+            : 'No changes yet. Changes made while the explorer is open show up here.'}
+        </p>
+      )}
+      <ol className="activity-feed__list">
+        {events.map((event) => (
+          <li
+            key={event.id}
+            className={`activity-feed__event activity-feed__event--${event.kind}`}
+          >
+            <span className="activity-feed__kind">
+              {KIND_LABELS[event.kind]}
+            </span>
+            {event.kind === 'removed' ? (
+              <span className="activity-feed__path">{event.path}</span>
+            ) : (
+              <button
+                type="button"
+                className="activity-feed__path"
+                onClick={() => onSelect(event.path)}
+              >
+                {event.path}
+              </button>
+            )}
+            {event.from && (
+              <span className="activity-feed__from">from {event.from}</span>
+            )}
+            <time className="activity-feed__time" dateTime={event.timestamp}>
+              {new Date(event.timestamp).toLocaleTimeString()}
+            </time>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import type { GrepEvent, GrepLineMatch } from '../../types/fileTree';
+import { Highlighted } from './Highlighted';
+import { streamGrep } from './treeApi';
+import type { TreeScope } from './treeApi';
+
+type FileMatches = { path: string; matches: GrepLineMatch[] };
+
+type SearchStatus =
+  | { state: 'idle' }
+  | { state: 'searching' }
+  | { state: 'done'; summary: Extract<GrepEvent, { type: 'done' }> }
+  | { state: 'stopped' }
+  | { state: 'error'; message: string };
+
+/**
+ * The "Find in files" tab: searches file contents through /api/file-tree/grep and lists
+ * matches grouped by file while the server is still streaming them. Clicking a match
+ * reveals the file in the tree and previews it at that line; starting another search,
+ * stopping, or leaving the tab cancels the one in progress.
+ */
+export function ContentSearch({
+  scope,
+  folder,
+  onOpen,
+}: {
+  scope: TreeScope;
+  /** The folder "Only in" narrows the search to, or null at the root. */
+  folder: { path: string; name: string } | null;
+  onOpen: (path: string, line: number) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [onlyInFolder, setOnlyInFolder] = useState(false);
+  const [files, setFiles] = useState<FileMatches[]>([]);
+  const [status, setStatus] = useState<SearchStatus>({ state: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const stop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  // Results belong to the scope they were found in.
+  useEffect(() => {
+    setFiles([]);
+    setStatus({ state: 'idle' });
+    return stop;
+  }, [scope]);
+
+  const search = async () => {
+    stop();
+    if (!query) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setFiles([]);
+    setStatus({ state: 'searching' });
+
+    try {
+      await streamGrep(
+        scope,
+        {
+          query,
+          path: onlyInFolder && folder ? folder.path : null,
+          regex,
+          caseSensitive,
+          include,
+          exclude,
+        },
+        (event) => {
+          if (controller.signal.aborted) return;
+          if (event.type === 'file') {
+            setFiles((prev) => [
+              ...prev,
+              { path: event.path, matches: event.matches },
+            ]);
+          } else if (event.type === 'done') {
+            setStatus({ state: 'done', summary: event });
+          } else {
+            setStatus({ state: 'error', message: event.message });
+          }
+        },
+        controller.signal
+      );
+      // A stream that ends without `done` was cut off by the server.
+      setStatus((prev) =>
+        prev.state === 'searching' ? { state: 'stopped' } : prev
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setStatus({
+        state: 'error',
+        message: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  };
+
+  const matchCount = files.reduce((sum, file) => sum + file.matches.length, 0);
+
+  return (
+    <section className="content-search" aria-label="Find in files">
+      <form
+        className="content-search__form"
+        onSubmit={(event) => {
+          event.preventDefault();
+          search();
+        }}
+      >
+        <input
+          type="search"
+          className="content-search__query"
+          placeholder="Search file contents"
+          aria-label="Search file contents"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <div className="content-search__options">
+          <label className="file-explorer__toggle">
+            <input
+              type="checkbox"
+              checked={regex}
+              onChange={(event) => setRegex(event.target.checked)}
+            />
+            <span>Regular expression</span>
+          </label>
+          <label className="file-explorer__toggle">
+            <input
+              type="checkbox"
+              checked={caseSensitive}
+              onChange={(event) => setCaseSensitive(event.target.checked)}
+            />
+            <span>Match case</span>
+          </label>
+          {folder && (
+            <label className="file-explorer__toggle">
+              <input
+                type="checkbox"
+                checked={onlyInFolder}
+                onChange={(event) => setOnlyInFolder(event.target.checked)}
+              />
+              <span>Only in {folder.name}</span>
+            </label>
+          )}
+        </div>
+        <label className="content-search__globs">
+          <span>Files to include</span>
+          <input
+            type="text"
+            placeholder="e.g. *.ts, src/**"
+            value={include}
+            onChange={(event) => setInclude(event.target.value)}
+          />
+        </label>
+        <label className="content-search__globs">
+          <span>Files to exclude</span>
+          <input
+            type="text"
+            placeholder="e.g. *.test.ts, fixtures"
+            value={exclude}
+            onChange={(event) => setExclude(event.target.value)}
+          />
+        </label>
+        {status.state === 'searching' ? (
+          <button
+            type="button"
+            className="content-search__button"
+            onClick={() => {
+              stop();
+              setStatus({ state: 'stopped' });
+            }}
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            className="content-search__button"
+            disabled={!query}
+          >
+            Search
+          </button>
+        )}
+      </form>
+
+      <p className="content-search__status" role="status">
+        {describeStatus(status, files.length, matchCount)}
+      </p>
+
+      <ol className="content-search__files">
+        {files.map((file) => (
+          <li key={file.path} className="content-search__file">
+            <button
+              type="button"
+              className="content-search__file-path"
+              onClick={() => onOpen(file.path, file.matches[0].line)}
+            >
+              {file.path}
+              <span className="content-search__count">
+                {file.matches.length}
+              </span>
+            </button>
+            <ol className="content-search__matches">
+              {file.matches.map((match) => (
+                <li key={match.line}>
+                  <button
+                    type="button"
+                    className="content-search__match"
+                    onClick={() => onOpen(file.path, match.line)}
+                  >
+                    <span className="content-search__line-number">
+                      {match.line}
+                    </span>
+                    <span className="content-search__text">
+                      <Highlighted text={match.text} ranges={match.ranges} />
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+function describeStatus(
+  status: SearchStatus,
+  fileCount: number,
+  matchCount: number
+): string {
+  const found = `${matchCount} ${matchCount === 1 ? 'match' : 'matches'} in ${
+    fileCount
+  } ${fileCount === 1 ? 'file' : 'files'}`;
+
+  switch (status.state) {
+    case 'idle':
+      return 'Press Enter to search.';
+    case 'searching':
+      return `Searching… ${found} so far.`;
+    case 'stopped':
+      return `Stopped. ${found}.`;
+    case 'error':
+      return `Search failed: ${status.message}`;
+    case 'done': {
+      const { filesSearched, filesSkipped, truncated } = status.summary;
+      const notes = [`${filesSearched} searched`];
+      if (filesSkipped > 0) {
+        notes.push(`${filesSkipped} binary or too large to search`);
+      }
+      return truncated
+        ? `Showing the first ${found}; narrow the search to see more.`
+        : `${found} (${notes.join(', ')}).`;
+    }
+  }
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+import type {
+  FileNode,
+  FolderAggregate,
+  FolderNode,
+} from '../../types/fileTree';
+import { formatBytes } from './format';
+import { squarify } from './treemapLayout';
+import type { TreemapItem } from './treemapLayout';
+import { useElementSize } from './useElementSize';
+
+/** Tiles smaller than this in either direction are drawn without a label. */
+const MIN_LABEL_WIDTH = 64;
+const MIN_LABEL_HEIGHT = 30;
+const LEGEND_SIZE = 6;
+
+type TileData =
+  | { kind: 'node'; node: FileNode | FolderNode }
+  /** Everything on pages of the folder that have not been fetched yet. */
+  | { kind: 'rest'; count: number };
+
+/**
+ * Disk usage of one folder's direct children, sized by bytes (recursive totals for
+ * folders) and coloured by extension; a folder takes the colour of the extension that
+ * uses the most space inside it. Symlinks and empty entries take no space and get no
+ * tile.
+ *
+ * It is drawn from the same tree state as the list, so watcher patches resize it like
+ * they update rows. Clicking a tile or breadcrumb calls `onSelect`, and the explorer
+ * shows whichever folder is selected, so selecting a folder zooms into it.
+ */
+export function DiskUsageTreemap({
+  folder,
+  rootName,
+  selectedPath,
+  isLoading,
+  onSelect,
+  onLoadMore,
+}: {
+  folder: FolderNode;
+  rootName: string;
+  selectedPath: string | null;
+  isLoading: boolean;
+  onSelect: (path: string) => void;
+  onLoadMore: (folder: FolderNode) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { width, height } = useElementSize(containerRef);
+
+  // A folder that was never expanded in the list has nothing to draw yet.
+  useEffect(() => {
+    if (folder.children.length === 0 && folder.nextCursor !== null) {
+      onLoadMore(folder);
+    }
+    // Only when another folder is shown; a failed load is retried from the rest tile.
+  }, [folder.path]);
+
+  const sizedChildren = folder.children.filter(
+    (child): child is FileNode | FolderNode => child.type !== 'symlink'
+  );
+  const items: TreemapItem<TileData>[] = sizedChildren.map((node) => ({
+    value: sizeOf(node),
+    data: { kind: 'node', node },
+  }));
+  const loadedBytes = items.reduce((sum, item) => sum + item.value, 0);
+  const unloadedCount = folder.childCount - folder.children.length;
+  if (folder.nextCursor !== null && unloadedCount > 0) {
+    items.push({
+      value: Math.max(folder.aggregate.totalBytes - loadedBytes, 0),
+      data: { kind: 'rest', count: unloadedCount },
+    });
+  }
+  const tiles = squarify(items, width, height);
+  const emptyCount = sizedChildren.filter((node) => sizeOf(node) === 0).length;
+
+  const segments = folder.path.split('/');
+  const crumbs = segments.map((segment, index) => ({
+    path: segments.slice(0, index + 1).join('/'),
+    name: index === 0 ? rootName : segment,
+  }));
+
+  return (
+    <div className="treemap">
+      <nav className="treemap__breadcrumbs" aria-label="Treemap location">
+        {crumbs.map((crumb, index) =>
+          index === crumbs.length - 1 ? (
+            <span key={crumb.path} aria-current="location">
+              {crumb.name}
+            </span>
+          ) : (
+            <span key={crumb.path}>
+              <button
+                type="button"
+                className="treemap__crumb"
+                onClick={() => onSelect(crumb.path)}
+              >
+                {crumb.name}
+              </button>
+              <span className="treemap__crumb-separator" aria-hidden="true">
+                /
+              </span>
+            </span>
+          )
+        )}
+        <span className="treemap__total">
+          {formatBytes(folder.aggregate.totalBytes)}
+        </span>
+      </nav>
+
+      <div
+        ref={containerRef}
+        className="treemap__canvas"
+        role="group"
+        aria-label={`Disk usage of ${crumbs[crumbs.length - 1].name}`}
+      >
+        {tiles.map(({ x, y, width: tileWidth, height: tileHeight, data }) => {
+          const style = {
+            left: x,
+            top: y,
+            width: tileWidth,
+            height: tileHeight,
+          };
+          const showLabel =
+            tileWidth >= MIN_LABEL_WIDTH && tileHeight >= MIN_LABEL_HEIGHT;
+
+          if (data.kind === 'rest') {
+            const label = isLoading
+              ? 'Loading…'
+              : `${data.count} more not loaded`;
+            return (
+              <button
+                key="rest"
+                type="button"
+                className="treemap__tile treemap__tile--rest"
+                style={style}
+                disabled={isLoading}
+                aria-label={label}
+                title={label}
+                onClick={() => onLoadMore(folder)}
+              >
+                {showLabel && <span className="treemap__name">{label}</span>}
+              </button>
+            );
+          }
+
+          const { node } = data;
+          const size = formatBytes(sizeOf(node));
+          return (
+            <button
+              key={node.path}
+              type="button"
+              className={[
+                'treemap__tile',
+                `treemap__tile--${node.type}`,
+                node.path === selectedPath ? 'treemap__tile--selected' : '',
+              ]
+                .filter(Boolean)
+                .join(' ')}
+              style={{
+                ...style,
+                backgroundColor: extensionColor(
+                  node.type === 'file'
+                    ? node.extension
+                    : largestExtension(node.aggregate)
+                ),
+              }}
+              aria-label={`${node.name}, ${size}`}
+              aria-pressed={node.path === selectedPath}
+              title={`${node.path}\n${size}`}
+              onClick={() => onSelect(node.path)}
+            >
+              {showLabel && (
+                <>
+                  <span className="treemap__name">
+                    {node.type === 'folder' ? `${node.name}/` : node.name}
+                  </span>
+                  <span className="treemap__size">{size}</span>
+                </>
+              )}
+            </button>
+          );
+        })}
+        {tiles.length === 0 && (
+          <p className="treemap__empty">
+            {isLoading ? 'Loading…' : 'Nothing here takes up any space.'}
+          </p>
+        )}
+      </div>
+
+      <TreemapLegend aggregate={folder.aggregate} />
+      {emptyCount > 0 && (
+        <p className="treemap__note">
+          {emptyCount} empty {emptyCount === 1 ? 'entry is' : 'entries are'}{' '}
+          not shown.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function TreemapLegend({ aggregate }: { aggregate: FolderAggregate }) {
+  const extensions = Object.keys(aggregate.extensions)
+    .filter((extension) => aggregate.extensions[extension].sizeInBytes > 0)
+    .sort(
+      (a, b) =>
+        aggregate.extensions[b].sizeInBytes -
+        aggregate.extensions[a].sizeInBytes
+    )
+    .slice(0, LEGEND_SIZE);
+  if (extensions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="treemap__legend" aria-label="Largest file types">
+      {extensions.map((extension) => (
+        <li key={extension}>
+          <span
+            className="treemap__swatch"
+            style={{ backgroundColor: extensionColor(extension || null) }}
+            aria-hidden="true"
+          />
+          {extension ? `.${extension}` : 'No extension'}{' '}
+          <span className="treemap__size">
+            {formatBytes(aggregate.extensions[extension].sizeInBytes)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function sizeOf(node: FileNode | FolderNode): number {
+  return node.type === 'file' ? node.sizeInBytes : node.aggregate.totalBytes;
+}
+
+function largestExtension(aggregate: FolderAggregate): string | null {
+  let largest: string | null = null;
+  Object.keys(aggregate.extensions).forEach((extension) => {
+    if (
+      largest === null ||
+      aggregate.extensions[extension].sizeInBytes >
+        aggregate.extensions[largest].sizeInBytes
+    ) {
+      largest = extension;
+    }
+  });
+  return largest || null;
+}
+
+/** A stable hue per extension, so a type keeps its colour at every zoom level. */
+function extensionColor(extension: string | null): string {
+  if (!extension) {
+    return 'hsl(225, 12%, 40%)';
+  }
+
+  let hash = 0;
+  for (let i = 0; i < extension.length; i++) {
+    hash = (hash * 31 + extension.toLowerCase().charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 55%, 42%)`;
+}
@@ -0,0 +1,311 @@
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type {
+  FileNode,
+  FolderNode,
+  TreeNode,
+  TreePatch,
+  WatchEvent,
+} from '../../types/fileTree';
+import { FileExplorer } from './FileExplorer';
+
+/** Stands in for the watcher's event stream, which jsdom does not provide. */
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {}
+
+  emit(data: WatchEvent) {
+    this.onmessage?.(
+      new MessageEvent('message', { data: JSON.stringify(data) })
+    );
+  }
+}
+
+/** jsdom has no layout, so every element measures 0×0 and never resizes. */
+class FakeResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+function file(path: string): FileNode {
+  return {
+    type: 'file',
+    name: path.slice(path.lastIndexOf('/') + 1),
+    path,
+    extension: path.slice(path.lastIndexOf('.') + 1),
+    sizeInBytes: 10,
+    modifiedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+function folder(path: string, children: TreeNode[]): FolderNode {
+  return {
+    type: 'folder',
+    name: path === 'root' ? 'demo' : path.slice(path.lastIndexOf('/') + 1),
+    path,
+    children,
+    childCount: children.length,
+    hasChildren: children.length > 0,
+    nextCursor: null,
+    aggregate: {
+      fileCount: children.length,
+      folderCount: 0,
+      totalBytes: 0,
+      newestModifiedAt: null,
+      extensions: {},
+    },
+  };
+}
+
+/**
+ * Two folders and 30 files under the root: 33 rows, more than react-window mounts for
+ * a list jsdom measures as 0 pixels high, so the last rows start out unrendered.
+ */
+const TREE = folder('root', [
+  folder('root/docs', [file('root/docs/readme.md')]),
+  folder('root/src', [
+    folder('root/src/lib', [file('root/src/lib/x.ts')]),
+    file('root/src/a.ts'),
+    file('root/src/b.ts'),
+  ]),
+  ...Array.from({ length: 30 }, (_, index) =>
+    file(`root/file-${String(index + 1).padStart(2, '0')}.txt`)
+  ),
+]);
+
+function respond(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function fakeFetch(input: RequestInfo | URL) {
+  const { pathname } = new URL(String(input), 'http://localhost');
+  switch (pathname) {
+    case '/api/file-tree/roots':
+      return respond({
+        roots: [{ id: 'demo', label: 'Demo', isGitRepository: false }],
+      });
+    case '/api/file-tree':
+      return respond(TREE);
+    default:
+      return respond({ message: 'Not found.' }, 404);
+  }
+}
+
+function treeElement() {
+  return screen.getByRole('tree');
+}
+
+function row(name: string): HTMLElement {
+  const match = screen
+    .getAllByRole('treeitem')
+    .find((item) =>
+      item.querySelector('span')?.textContent?.endsWith(` ${name}`)
+    );
+  if (!match) {
+    throw new Error(`No rendered row for ${name}.`);
+  }
+  return match;
+}
+
+function queryRow(name: string): HTMLElement | null {
+  try {
+    return row(name);
+  } catch {
+    return null;
+  }
+}
+
+function press(key: string) {
+  fireEvent.keyDown(treeElement(), { key });
+}
+
+/** The row `aria-activedescendant` names, which must exist for it to be announced. */
+function activeRow(): HTMLElement | null {
+  const id = treeElement().getAttribute('aria-activedescendant');
+  return id ? document.getElementById(id) : null;
+}
+
+async function renderExplorer() {
+  render(<FileExplorer />);
+  await waitFor(() => row('docs'));
+}
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+  vi.stubGlobal('fetch', vi.fn(fakeFetch));
+  vi.stubGlobal('EventSource', FakeEventSource);
+  vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  window.localStorage.clear();
+  window.history.replaceState(null, '', '/');
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('FileExplorer tree semantics', () => {
+  it('reports each row’s level, position and set size', async () => {
+    await renderExplorer();
+
+    const root = row('demo');
+    expect(root.getAttribute('aria-level')).toBe('1');
+    expect(root.getAttribute('aria-posinset')).toBe('1');
+    expect(root.getAttribute('aria-setsize')).toBe('1');
+
+    const docs = row('docs');
+    expect(docs.getAttribute('aria-level')).toBe('2');
+    expect(docs.getAttribute('aria-posinset')).toBe('1');
+    expect(docs.getAttribute('aria-setsize')).toBe('32');
+    expect(docs.getAttribute('aria-expanded')).toBe('false');
+
+    const third = row('file-01.txt');
+    expect(third.getAttribute('aria-posinset')).toBe('3');
+    expect(third.getAttribute('aria-expanded')).toBeNull();
+  });
+
+  it('marks the selected row with aria-selected', async () => {
+    await renderExplorer();
+
+    expect(row('file-01.txt').getAttribute('aria-selected')).toBe('false');
+    fireEvent.click(row('file-01.txt'));
+
+    expect(row('file-01.txt').getAttribute('aria-selected')).toBe('true');
+    expect(row('docs').getAttribute('aria-selected')).toBe('false');
+    expect(activeRow()).toBe(row('file-01.txt'));
+  });
+
+  it('lets a drag start from a row and keeps focus on the tree after a click', async () => {
+    await renderExplorer();
+
+    // A cancelled mouse-down keeps Firefox from starting a drag.
+    expect(fireEvent.mouseDown(row('file-01.txt'))).toBe(true);
+    fireEvent.dragStart(row('file-01.txt'), {
+      dataTransfer: { setData: () => {}, effectAllowed: 'none' },
+    });
+    expect(row('file-01.txt').className).toContain(
+      'file-explorer__node--dragging'
+    );
+    fireEvent.dragEnd(row('file-01.txt'));
+
+    row('file-01.txt').focus();
+    fireEvent.click(row('file-01.txt'));
+    expect(document.activeElement).toBe(treeElement());
+  });
+});
+
+describe('FileExplorer keyboard navigation', () => {
+  it('jumps to the first and last row with Home and End', async () => {
+    await renderExplorer();
+    expect(queryRow('file-30.txt')).toBeNull();
+
+    press('End');
+    await waitFor(() => expect(activeRow()).toBe(row('file-30.txt')));
+    expect(row('file-30.txt').getAttribute('aria-selected')).toBe('true');
+
+    press('Home');
+    await waitFor(() => expect(activeRow()).toBe(row('demo')));
+    expect(row('demo').getAttribute('aria-selected')).toBe('true');
+  });
+
+  it('only points aria-activedescendant at rows that are rendered', async () => {
+    await renderExplorer();
+
+    press('End');
+    await waitFor(() => expect(activeRow()).toBe(row('file-30.txt')));
+
+    // Scrolling back to the top unmounts the selected row.
+    const list = treeElement().querySelector('.file-explorer__list')!;
+    list.scrollTop = 0;
+    fireEvent.scroll(list);
+    await waitFor(() => expect(queryRow('file-30.txt')).toBeNull());
+    expect(treeElement().getAttribute('aria-activedescendant')).toBeNull();
+
+    // Moving on scrolls the new selection in, and points at it again.
+    press('ArrowUp');
+    await waitFor(() => expect(activeRow()).toBe(row('file-29.txt')));
+  });
+
+  it('opens the focused folder’s siblings with *', async () => {
+    await renderExplorer();
+
+    press('Home');
+    press('ArrowDown');
+    expect(activeRow()).toBe(row('docs'));
+
+    press('*');
+    await waitFor(() =>
+      expect(row('docs').getAttribute('aria-expanded')).toBe('true')
+    );
+    expect(row('src').getAttribute('aria-expanded')).toBe('true');
+    expect(row('readme.md')).toBeTruthy();
+    expect(row('lib').getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('opens and enters folders with Right, and leaves them with Left', async () => {
+    await renderExplorer();
+
+    press('Home');
+    press('ArrowDown');
+    press('ArrowDown');
+    expect(activeRow()).toBe(row('src'));
+
+    press('ArrowRight');
+    await waitFor(() =>
+      expect(row('src').getAttribute('aria-expanded')).toBe('true')
+    );
+    expect(activeRow()).toBe(row('src'));
+
+    press('ArrowRight');
+    expect(activeRow()).toBe(row('lib'));
+
+    press('ArrowLeft');
+    expect(activeRow()).toBe(row('src'));
+    expect(row('src').getAttribute('aria-expanded')).toBe('true');
+
+    press('ArrowLeft');
+    expect(row('src').getAttribute('aria-expanded')).toBe('false');
+  });
+});
+
+describe('FileExplorer live region', () => {
+  it('announces changes from the watcher politely', async () => {
+    await renderExplorer();
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+
+    const liveRegion = document.querySelector('[aria-live="polite"]')!;
+    expect(liveRegion.textContent).toBe('');
+
+    const patches: TreePatch[] = [
+      { op: 'added', path: 'root/new.txt', node: file('root/new.txt') },
+      { op: 'metadata-changed', path: 'root', node: TREE },
+    ];
+    act(() => {
+      FakeEventSource.instances[0].emit({ type: 'patch', patches });
+    });
+
+    expect(liveRegion.textContent).toBe('new.txt was added.');
+  });
+});
@@ -1,57 +1,307 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-
-import type { TreeNode, FolderNode, FileNode } from '../../types/fileTree';
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { ReactNode } from 'react';
+import { FixedSizeList } from 'react-window';
+import type { ListChildComponentProps } from 'react-window';
+
+import type {
+  TreeNode,
+  FolderNode,
+  FileNode,
+  GitStatus,
+  SnapshotChange,
+  SnapshotChangeKind,
+  SortOrder,
+  SymlinkNode,
+  TreePatch,
+  TreeRootSummary,
+} from '../../types/fileTree';
+import {
+  applyTreePatches,
+  findNodeByPath,
+  isSameOrAncestorPath,
+  parentPathOf,
+  rebasePathThroughPatches,
+  sortTree,
+  updateFolder,
+  withoutEchoes,
+} from './treeModel';
+import type { PendingEchoes } from './treeModel';
+import { DEFAULT_SORT_ORDER } from '../../lib/fileTree/sortOrder';
+import {
+  compareWithSnapshot,
+  createEntry,
+  deleteEntry,
+  fetchFolder,
+  moveEntries,
+  updateEntry,
+} from './treeApi';
+import type { TreeScope } from './treeApi';
+import { useElementSize } from './useElementSize';
+import { useTreeDragAndDrop } from './useTreeDragAndDrop';
+import { useTreeWatcher } from './useTreeWatcher';
+import type { WatcherStatus } from './useTreeWatcher';
+import { ActivityFeed } from './ActivityFeed';
+import { ContentSearch } from './ContentSearch';
+import { DiskUsageTreemap } from './DiskUsageTreemap';
+import { FilePreview } from './FilePreview';
+import { FolderExport } from './FolderExport';
+import { NameEditor } from './NameEditor';
+import { QuickOpen } from './QuickOpen';
+import { AggregateDetails, SelectionSummary } from './SelectionSummary';
+import { SnapshotControl } from './SnapshotControl';
+import { SortControl } from './SortControl';
+import { TreeBreadcrumbs } from './TreeBreadcrumbs';
+import { TreeContextMenu } from './TreeContextMenu';
+import type { ContextMenuAction } from './TreeContextMenu';
+import { formatBytes, formatDateTime } from './format';
+import {
+  locationUrl,
+  readLocation,
+  readRootState,
+  storeRootState,
+} from './explorerState';
 
 /**
- * For handling large datasets (10,000+ nodes), I'd consider:
+ * For handling large datasets (10,000+ nodes):
  *
- * 1. Virtualization with react-window - only render what's visible in the viewport
- * 2. Memoizing flattenTree() and countFiles() to avoid recalculating on every render
- * 3. Lazy loading folder contents when expanded rather than loading everything upfront
- * 4. Debouncing the file watcher updates to batch rapid changes
- * 5. Tracking which nodes actually changed and only updating those instead of the whole tree
+ * 1. Rows are virtualized with react-window, so only what's in the viewport is in the DOM
+ * 2. flattenTree() is memoized and only reruns when the tree or expansion changes
+ * 3. Folder contents are loaded lazily, a page at a time, when expanded
+ * 4. File watcher updates are debounced on the server to batch rapid changes
+ * 5. The watcher sends patches for the nodes that changed instead of the whole tree
  */
 
+/**
+ * The list is flat so it can be virtualized, which leaves no `role="group"` elements to
+ * nest rows in; the tree structure is given by each row's level and its position among
+ * its siblings instead, as the APG tree pattern allows.
+ */
 type VisibleNode = {
+  kind: 'node';
   node: TreeNode;
   depth: number;
+  /** 1-based, among the siblings listed under the same folder. */
+  positionInSet: number;
+  /** How many siblings there are, counting pages that have not been loaded yet. */
+  setSize: number;
+};
+
+/**
+ * Non-interactive rows rendered under an expanded folder whose children are still
+ * being fetched, or that has more pages available.
+ */
+type PlaceholderRow = {
+  kind: 'loading' | 'load-more';
+  folder: FolderNode;
+  depth: number;
+};
+
+/** Row holding the name field for an entry that is being created. */
+type CreateRow = {
+  kind: 'create';
+  parentPath: string;
+  entryType: 'file' | 'folder';
+  depth: number;
+};
+
+/** In diff mode, an entry under an expanded folder that is gone since the snapshot. */
+type RemovedRow = {
+  kind: 'removed';
+  change: SnapshotChange;
+  depth: number;
+};
+
+type VisibleRow = VisibleNode | PlaceholderRow | CreateRow | RemovedRow;
+
+/** The changes since the compared snapshot, arranged for drawing the tree. */
+type SnapshotDiff = {
+  byPath: Map<string, SnapshotChange>;
+  removedByParent: Map<string, SnapshotChange[]>;
+  /** Folders with a change somewhere below them. */
+  changedFolders: Set<string>;
+};
+
+type VirtualRowData = {
+  rows: VisibleRow[];
+  renderRow: (row: VisibleRow) => ReactNode;
 };
 
+type EditingState =
+  | { mode: 'rename'; path: string }
+  | { mode: 'create'; parentPath: string; entryType: 'file' | 'folder' };
+
+type ContextMenuState = { x: number; y: number; path: string };
+
+type DetailsView = 'details' | 'treemap' | 'activity' | 'search';
+
 const INDENT = 20;
+/** How long rows stay highlighted after the watcher reports a change to them. */
+const RECENT_CHANGE_MS = 4000;
+/** Every row kind is rendered at this height so the list can be virtualized. */
+const ROW_HEIGHT = 36;
+const OVERSCAN_ROWS = 10;
+/** Out of flow, so the list's height never feeds back into the container it is sized to. */
+const LIST_STYLE = { position: 'absolute', top: 0, left: 0 } as const;
+/** Selections closer together than this share one history entry, e.g. arrowing down. */
+const HISTORY_COALESCE_MS = 1000;
 
 export function FileExplorer() {
+  const [roots, setRoots] = useState<TreeRootSummary[]>([]);
+  const [rootId, setRootId] = useState<string | null>(null);
+  const [showHidden, setShowHidden] = useState(false);
+  /** Only list entries with a git status; ignored when the root is not a repository. */
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(DEFAULT_SORT_ORDER);
   const [tree, setTree] = useState<FolderNode | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState<Set<string>>(
     () => new Set(['root'])
   );
+  /** The focused row: keyboard navigation, F2 and the preview act on it. */
   const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  /** Every selected row, including `selectedPath` unless it was Ctrl-toggled off. */
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(
+    () => new Set()
+  );
   const [lastUpdateTime, setLastUpdateTime] = useState<string | null>(null);
-  const [isWatching, setIsWatching] = useState(false);
+  /** Read out by the polite live region when the watcher changes the tree. */
+  const [announcement, setAnnouncement] = useState('');
+  /** Bumped for every batch of watcher patches, so the activity feed refetches. */
+  const [historyVersion, setHistoryVersion] = useState(0);
+  /** Paths the watcher changed lately, with when, for highlighting their rows. */
+  const [recentChanges, setRecentChanges] = useState<Map<string, number>>(
+    () => new Map()
+  );
+  /** The snapshot diff mode compares the tree with, or null outside diff mode. */
+  const [comparedSnapshot, setComparedSnapshot] = useState<string | null>(null);
+  const [snapshotChanges, setSnapshotChanges] = useState<SnapshotChange[]>([]);
+  /** Bumped to refetch the tree when the watcher cannot replay what was missed. */
+  const [treeReloads, setTreeReloads] = useState(0);
+  const [loadingPaths, setLoadingPaths] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [loadErrors, setLoadErrors] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(
+    null
+  );
+  const [mutationError, setMutationError] = useState<string | null>(null);
+  const [isQuickOpenOpen, setIsQuickOpenOpen] = useState(false);
+  const [detailsView, setDetailsView] = useState<DetailsView>('details');
+  /** The match last opened from "Find in files", previewed at its line. */
+  const [searchHit, setSearchHit] = useState<{
+    path: string;
+    line: number;
+  } | null>(null);
+  /** A path from the URL, selected once its root's tree has loaded. */
+  const [pendingReveal, setPendingReveal] = useState<string | null>(null);
+  /** The folder the tree is focused on, listed as its top row; null for the root. */
+  const [hoistedPath, setHoistedPath] = useState<string | null>(null);
 
   const [typeahead, setTypeahead] = useState<string>('');
   const typeaheadTimeoutRef = useRef<number | null>(null);
   const nodeRefs = useRef<Record<string, HTMLButtonElement | null>>({});
   const treeContainerRef = useRef<HTMLDivElement>(null);
-  const watcherConnectedRef = useRef(false);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  /** Prefixes row ids, which `aria-activedescendant` on the tree points at. */
+  const idPrefix = useId();
+  const listRef = useRef<FixedSizeList<VirtualRowData>>(null);
+  /** Indexes of the rows react-window has mounted, overscan included. */
+  const [renderedRows, setRenderedRows] = useState({ start: 0, stop: -1 });
+  const { height: listHeight } = useElementSize(treeContainerRef);
+  const pendingLoadsRef = useRef<Set<string>>(new Set());
+  /** Where Shift-click and Shift+Arrow ranges start from. */
+  const anchorPathRef = useRef<string | null>(null);
+  const revealingRef = useRef(false);
+  /** How the next change of root or selection is written to the history. */
+  const historyModeRef = useRef<'push' | 'replace'>('push');
+  const lastHistoryPushRef = useRef(0);
+  const scope = useMemo<TreeScope | null>(
+    () => (rootId ? { rootId, showHidden } : null),
+    [rootId, showHidden]
+  );
+  const scopeRef = useRef<TreeScope | null>(null);
+  scopeRef.current = scope;
+  const sortOrderRef = useRef(sortOrder);
+  sortOrderRef.current = sortOrder;
+  const treeRef = useRef<FolderNode | null>(null);
+  treeRef.current = tree;
+  const pendingEchoesRef = useRef<PendingEchoes>(new Map());
+  const mutationsInFlightRef = useRef(0);
 
   useEffect(() => {
     let cancelled = false;
 
-    async function loadTree() {
-      setLoading(true);
+    async function loadRoots() {
       try {
-        const response = await fetch('/api/file-tree');
+        const response = await fetch('/api/file-tree/roots');
         if (!response.ok) {
           throw new Error(`Request failed with status ${response.status}`);
         }
-        const payload: FolderNode = await response.json();
+        const payload: { roots: TreeRootSummary[] } = await response.json();
+        if (cancelled) return;
+
+        setRoots(payload.roots);
+        if (payload.roots.length > 0) {
+          // A link to an unknown root opens the default one, without its path.
+          const location = readLocation();
+          const linkedRoot = payload.roots.find(
+            (root) => root.id === location.rootId
+          );
+          const initialRoot = linkedRoot ?? payload.roots[0];
+          if (linkedRoot || !location.rootId) {
+            setPendingReveal(location.path);
+          }
+          restoreRootState(initialRoot.id);
+          setRootId(initialRoot.id);
+        } else {
+          setError(
+            'No roots configured. Add file-explorer.config.json or set FILE_EXPLORER_ROOTS.'
+          );
+          setLoading(false);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+          setLoading(false);
+        }
+      }
+    }
+
+    loadRoots();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!scope) return;
+
+    let cancelled = false;
+
+    async function loadTree() {
+      setLoading(true);
+      pendingEchoesRef.current.clear();
+      const requestedOrder = sortOrderRef.current;
+      try {
+        const payload = await fetchFolder(scope, 'root', null, requestedOrder);
         if (!cancelled) {
-          setTree(payload);
+          setTree(
+            sortOrderRef.current === requestedOrder
+              ? payload
+              : sortTree(payload, sortOrderRef.current)
+          );
           setError(null);
         }
       } catch (err) {
@@ -70,116 +320,538 @@ export function FileExplorer() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [scope, treeReloads]);
+
+  const { status: watcherStatus, reconnect } = useTreeWatcher(
+    loading || !tree ? null : scope,
+    {
+      onPatches: (patches) => {
+        applyPatches(
+          withoutEchoes(
+            pendingEchoesRef.current,
+            patches,
+            'watcher',
+            mutationsInFlightRef.current > 0
+          )
+        );
+        setLastUpdateTime(new Date().toLocaleTimeString());
+        setHistoryVersion((version) => version + 1);
+        markRecentChanges(patches);
+        const summary = describePatches(patches);
+        if (summary) {
+          setAnnouncement(summary);
+        }
+      },
+      onReset: () => {
+        setTreeReloads((count) => count + 1);
+        setAnnouncement('The file tree changed too much to update; reloading.');
+      },
+    }
+  );
+
+  /** Fetches one page of a folder into the tree and returns it, or null if it failed. */
+  const loadFolderPage = useCallback(
+    async (
+      folderPath: string,
+      cursor: string | null
+    ): Promise<FolderNode | null> => {
+      const requestedScope = scopeRef.current;
+      const requestedOrder = sortOrderRef.current;
+      if (!requestedScope || pendingLoadsRef.current.has(folderPath)) {
+        return null;
+      }
+      pendingLoadsRef.current.add(folderPath);
+
+      setLoadingPaths((prev) => new Set(prev).add(folderPath));
+      setLoadErrors((prev) => {
+        if (!(folderPath in prev)) return prev;
+        const next = { ...prev };
+        delete next[folderPath];
+        return next;
+      });
+
+      try {
+        const page = await fetchFolder(
+          requestedScope,
+          folderPath,
+          cursor,
+          requestedOrder
+        );
+        // A page in an order that has since changed would be appended out of place; the
+        // re-sort has already queued a fresh load of this folder.
+        if (
+          scopeRef.current !== requestedScope ||
+          sortOrderRef.current !== requestedOrder
+        ) {
+          return null;
+        }
+
+        const isFirstPage = cursor === null || cursor === '0';
+
+        setTree((prev) =>
+          prev
+            ? updateFolder(prev, folderPath, (folder) =>
+                isFirstPage
+                  ? page
+                  : { ...page, children: [...folder.children, ...page.children] }
+              )
+            : prev
+        );
+        return page;
+      } catch (err) {
+        setLoadErrors((prev) => ({
+          ...prev,
+          [folderPath]: err instanceof Error ? err.message : 'Unknown error',
+        }));
+        return null;
+      } finally {
+        pendingLoadsRef.current.delete(folderPath);
+        setLoadingPaths((prev) => {
+          const next = new Set(prev);
+          next.delete(folderPath);
+          return next;
+        });
+      }
+    },
+    []
+  );
+
+  /**
+   * Applies patches from the watcher or from our own mutations. Patches are applied in
+   * place, so expansion and selection only need to follow renames and drop anything
+   * that was removed.
+   */
+  const applyPatches = (patches: TreePatch[]) => {
+    setTree((prevTree) =>
+      prevTree
+        ? applyTreePatches(prevTree, patches, sortOrderRef.current)
+        : prevTree
+    );
+
+    setExpanded((prevExpanded) => {
+      const newExpanded = new Set<string>();
+      prevExpanded.forEach((path) => {
+        const nextPath = rebasePathThroughPatches(path, patches);
+        if (nextPath) {
+          newExpanded.add(nextPath);
+        }
+      });
+
+      newExpanded.add('root');
+      return newExpanded;
+    });
+
+    if (
+      selectedPath &&
+      rebasePathThroughPatches(selectedPath, patches) !== selectedPath
+    ) {
+      historyModeRef.current = 'replace';
+    }
+    setSelectedPath((prevPath) =>
+      prevPath ? rebasePathThroughPatches(prevPath, patches) : prevPath
+    );
+    setSelectedPaths((prevPaths) => {
+      const nextPaths = new Set<string>();
+      prevPaths.forEach((path) => {
+        const nextPath = rebasePathThroughPatches(path, patches);
+        if (nextPath) {
+          nextPaths.add(nextPath);
+        }
+      });
+      return nextPaths;
+    });
+    if (anchorPathRef.current) {
+      anchorPathRef.current = rebasePathThroughPatches(
+        anchorPathRef.current,
+        patches
+      );
+    }
+    // A focused folder that is removed leaves the whole tree showing.
+    setHoistedPath((prevPath) =>
+      prevPath ? rebasePathThroughPatches(prevPath, patches) : prevPath
+    );
+  };
+
+  const markRecentChanges = (patches: TreePatch[]) => {
+    const paths = changedPathsOf(patches);
+    if (paths.length === 0) return;
 
+    const now = Date.now();
+    setRecentChanges((prev) => {
+      const next = new Map(prev);
+      paths.forEach((path) => next.set(path, now));
+      return next;
+    });
+  };
+
+  // One timer for whichever highlight ends first; pruning sets the next one.
   useEffect(() => {
-    if (loading || !tree || watcherConnectedRef.current) return;
+    if (recentChanges.size === 0) return;
+
+    const oldest = Math.min(...Array.from(recentChanges.values()));
+    const timer = window.setTimeout(() => {
+      const cutoff = Date.now() - RECENT_CHANGE_MS;
+      setRecentChanges((prev) => {
+        const next = new Map(prev);
+        prev.forEach((changedAt, path) => {
+          if (changedAt <= cutoff) next.delete(path);
+        });
+        return next;
+      });
+    }, Math.max(oldest + RECENT_CHANGE_MS - Date.now(), 0));
 
-    const connectTimer = setTimeout(() => {
-      console.log('🔌 Connecting to file watcher...');
-      watcherConnectedRef.current = true;
-      const eventSource = new EventSource('/api/file-tree/watch');
-      eventSourceRef.current = eventSource;
+    return () => window.clearTimeout(timer);
+  }, [recentChanges]);
 
-      if (eventSource.readyState === EventSource.OPEN) {
-        setIsWatching(true);
+  const selectOnly = (path: string | null) => {
+    setSelectedPath(path);
+    setSelectedPaths(path ? new Set([path]) : new Set());
+    anchorPathRef.current = path;
+  };
+
+  const toggleSelected = (path: string) => {
+    setSelectedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
       }
+      return next;
+    });
+    setSelectedPath(path);
+    anchorPathRef.current = path;
+  };
 
-      let isConnected = false;
-      let reconnectAttempts = 0;
-      const MAX_RECONNECT_ATTEMPTS = 5;
+  /** Selects every visible row between the anchor and `path`, and focuses `path`. */
+  const selectRange = (path: string) => {
+    const paths = visibleNodes.map((item) => item.node.path);
+    const toIndex = paths.indexOf(path);
+    let fromIndex = anchorPathRef.current
+      ? paths.indexOf(anchorPathRef.current)
+      : -1;
+    if (fromIndex < 0) {
+      fromIndex = toIndex;
+      anchorPathRef.current = path;
+    }
 
-      eventSource.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
+    setSelectedPaths(
+      new Set(
+        paths.slice(
+          Math.min(fromIndex, toIndex),
+          Math.max(fromIndex, toIndex) + 1
+        )
+      )
+    );
+    setSelectedPath(path);
+  };
 
-          if (data.type === 'connected') {
-            if (!isConnected) {
-              console.log('✅ File watcher connected');
-              isConnected = true;
-            }
-          } else if (data.type === 'update' && data.tree) {
-            const newTree: FolderNode = data.tree;
+  /**
+   * Restores what was remembered about a root. Called in the same update that selects
+   * the root, so its tree is first fetched with the right filters and order.
+   */
+  const restoreRootState = (nextRootId: string) => {
+    const stored = readRootState(nextRootId);
+    setExpanded(new Set(stored.expanded));
+    sortOrderRef.current = stored.sortOrder;
+    setSortOrder(stored.sortOrder);
+    setShowHidden(stored.showHidden);
+    setChangedOnly(stored.changedOnly);
+  };
 
-            setTree((prevTree) => {
-              if (!prevTree) {
-                setLastUpdateTime(new Date().toLocaleTimeString());
-                return newTree;
-              }
+  const switchRoot = (
+    nextRootId: string,
+    revealTarget: string | null = null
+  ) => {
+    if (nextRootId === rootId) return;
+
+    // Paths are only meaningful within a root, so all per-tree state starts over.
+    setLoading(true);
+    setTree(null);
+    restoreRootState(nextRootId);
+    selectOnly(null);
+    setPendingReveal(revealTarget);
+    setHoistedPath(null);
+    setLoadErrors({});
+    setEditing(null);
+    setContextMenu(null);
+    setMutationError(null);
+    setIsQuickOpenOpen(false);
+    setLastUpdateTime(null);
+    setComparedSnapshot(null);
+    pendingLoadsRef.current.clear();
+    setRootId(nextRootId);
+  };
 
-              if (treesEqual(prevTree, newTree)) {
-                return prevTree;
-              }
+  /**
+   * Relists the tree with or without hidden entries. Unlike switching roots, expansion
+   * and selection carry over; expanded folders are refetched as the new tree arrives.
+   */
+  const toggleShowHidden = (nextShowHidden: boolean) => {
+    setLoadErrors({});
+    setEditing(null);
+    setContextMenu(null);
+    pendingLoadsRef.current.clear();
+    setShowHidden(nextShowHidden);
+  };
 
-              console.log(
-                '🔄 File tree updated!',
-                new Date().toLocaleTimeString()
-              );
-
-              setExpanded((prevExpanded) => {
-                const newExpanded = new Set<string>();
-                prevExpanded.forEach((path) => {
-                  if (findNodeByPath(newTree, path)) {
-                    newExpanded.add(path);
-                  }
-                });
-
-                newExpanded.add('root');
-                return newExpanded;
-              });
-
-              setSelectedPath((prevPath) => {
-                if (prevPath && findNodeByPath(newTree, prevPath)) {
-                  return prevPath;
-                }
-                return prevPath;
-              });
+  /**
+   * Re-sorts what is already loaded instead of refetching the tree. Only partly loaded
+   * folders are fetched again, from their first page.
+   */
+  const changeSortOrder = (nextOrder: SortOrder) => {
+    pendingLoadsRef.current.clear();
+    sortOrderRef.current = nextOrder;
+    setSortOrder(nextOrder);
+    setTree((prev) => (prev ? sortTree(prev, nextOrder) : prev));
+  };
 
-              setLastUpdateTime(new Date().toLocaleTimeString());
+  const expandFolder = (folder: FolderNode) => {
+    setExpanded((prev) => new Set(prev).add(folder.path));
 
-              return newTree;
-            });
+    if (folder.children.length === 0 && folder.nextCursor !== null) {
+      loadFolderPage(folder.path, folder.nextCursor);
+    }
+  };
 
-            setIsWatching(true);
-          } else if (data.type === 'error') {
-            console.error('❌ File watcher error:', data.message);
-          }
-        } catch (err) {
-          console.error('Failed to parse SSE message:', err);
-        }
-      };
-
-      eventSource.onerror = () => {
-        if (eventSource.readyState === EventSource.CLOSED) {
-          reconnectAttempts++;
-          if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-            console.warn(
-              '⚠️ File watcher connection failed after multiple attempts'
-            );
-            setIsWatching(false);
-          }
+  /**
+   * Selects a node that may live in folders we have not fetched yet, e.g. a search
+   * result. Each ancestor is loaded page by page until the next step down the path
+   * shows up, then all of them are expanded at once.
+   */
+  const revealPath = async (targetPath: string) => {
+    const segments = targetPath.split('/');
+    const ancestors = segments
+      .slice(0, -1)
+      .map((_, index) => segments.slice(0, index + 1).join('/'));
+
+    for (let index = 0; index < ancestors.length; index++) {
+      const folderPath = ancestors[index];
+      const childPath = ancestors[index + 1] ?? targetPath;
+
+      // State updates from earlier pages may not have rendered yet, so a missing folder
+      // is treated as not fetched; its page is applied after its parent's regardless.
+      const folder = findNodeByPath(treeRef.current, folderPath);
+      let children = folder?.type === 'folder' ? folder.children : [];
+      let cursor = folder?.type === 'folder' ? folder.nextCursor : '0';
+
+      while (
+        !children.some((child) => child.path === childPath) &&
+        cursor !== null
+      ) {
+        const page = await loadFolderPage(folderPath, cursor);
+        if (!page) {
+          setMutationError(`Could not open ${targetPath}.`);
+          return;
         }
-      };
+        children = page.children;
+        cursor = page.nextCursor;
+      }
 
-      eventSource.onopen = () => {
-        console.log('✅ File watcher connection opened');
-        setIsWatching(true);
-        isConnected = true;
-        reconnectAttempts = 0;
-      };
-    }, 100);
+      if (!children.some((child) => child.path === childPath)) {
+        setMutationError(`${targetPath} no longer exists.`);
+        return;
+      }
+    }
 
-    return () => {
-      clearTimeout(connectTimer);
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
-        setIsWatching(false);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      ancestors.forEach((path) => next.add(path));
+      return next;
+    });
+    if (hoistedPath && !isSameOrAncestorPath(hoistedPath, targetPath)) {
+      setHoistedPath(null);
+    }
+    selectOnly(targetPath);
+  };
+
+  /**
+   * Re-roots the list at `folderPath`, or at the root when it is null. The selection
+   * stays if it is inside the folder and moves to the folder otherwise.
+   */
+  const hoistFolder = (folderPath: string | null) => {
+    const node = folderPath ? findNodeByPath(tree, folderPath) : null;
+    if (folderPath && node?.type !== 'folder') return;
+    const folder = node?.type === 'folder' ? node : null;
+
+    setHoistedPath(folder && folder.path !== 'root' ? folder.path : null);
+    if (folder) {
+      if (!expanded.has(folder.path)) {
+        expandFolder(folder);
+      }
+      if (!selectedPath || !isSameOrAncestorPath(folder.path, selectedPath)) {
+        selectOnly(folder.path);
+      }
+    }
+    setAnnouncement(
+      folder && folder.path !== 'root'
+        ? `Showing only ${folder.name}.`
+        : 'Showing all files.'
+    );
+  };
+
+  useEffect(() => {
+    if (rootId) {
+      storeRootState(rootId, {
+        expanded: Array.from(expanded),
+        sortOrder,
+        showHidden,
+        changedOnly,
+      });
+    }
+  }, [rootId, expanded, sortOrder, showHidden, changedOnly]);
+
+  useEffect(() => {
+    if (loading || !tree || pendingReveal === null || revealingRef.current) {
+      return;
+    }
+
+    revealingRef.current = true;
+    revealPath(pendingReveal).finally(() => {
+      revealingRef.current = false;
+      // If the path is gone, the URL is corrected without adding an entry.
+      historyModeRef.current = 'replace';
+      setPendingReveal(null);
+    });
+  }, [loading, tree, pendingReveal]);
+
+  // The URL follows the root and the focused row, so it can be shared or bookmarked.
+  useEffect(() => {
+    if (!rootId || pendingReveal !== null) return;
+
+    const url = locationUrl(
+      { rootId, path: selectedPath },
+      roots[0]?.id ?? null
+    );
+    const { pathname, search, hash } = window.location;
+    const mode = historyModeRef.current;
+    historyModeRef.current = 'push';
+    if (url === `${pathname}${search}${hash}`) return;
+
+    const now = Date.now();
+    if (
+      mode === 'push' &&
+      now - lastHistoryPushRef.current > HISTORY_COALESCE_MS
+    ) {
+      window.history.pushState(null, '', url);
+      lastHistoryPushRef.current = now;
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [rootId, selectedPath, pendingReveal, roots]);
+
+  // Back and forward move between selections, switching roots if they have to.
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = readLocation();
+      const target =
+        roots.find((root) => root.id === location.rootId) ?? roots[0];
+      if (!target) return;
+
+      if (target.id !== rootId) {
+        switchRoot(target.id, location.path);
+      } else if (location.path) {
+        setPendingReveal(location.path);
+      } else {
+        selectOnly(null);
       }
     };
-  }, [loading]);
 
-  const visibleNodes = tree ? flattenTree(tree, expanded) : [];
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [roots, rootId]);
+
+  // Expanded folders can arrive unloaded, e.g. after relisting with hidden entries.
+  useEffect(() => {
+    if (!tree) return;
+
+    expanded.forEach((path) => {
+      const folder = findNodeByPath(tree, path);
+      if (
+        folder?.type === 'folder' &&
+        folder.children.length === 0 &&
+        folder.nextCursor !== null &&
+        !loadErrors[path]
+      ) {
+        loadFolderPage(path, folder.nextCursor);
+      }
+    });
+  }, [tree, expanded, loadErrors, loadFolderPage]);
+
+  // Compared again after every batch of watcher patches, so the overlay stays live.
+  useEffect(() => {
+    if (!scope || !comparedSnapshot) {
+      setSnapshotChanges([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    compareWithSnapshot(scope, comparedSnapshot, controller.signal)
+      .then(setSnapshotChanges)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        const reason = err instanceof Error ? err.message : 'unknown error';
+        setMutationError(
+          `Could not compare with ${comparedSnapshot}: ${reason}`
+        );
+        setComparedSnapshot(null);
+      });
+
+    return () => controller.abort();
+  }, [scope, comparedSnapshot, historyVersion]);
+
+  const snapshotDiff = useMemo(
+    () => indexSnapshotChanges(snapshotChanges),
+    [snapshotChanges]
+  );
+
+  const pendingCreate = editing?.mode === 'create' ? editing : null;
+  const isGitRoot =
+    roots.find((root) => root.id === rootId)?.isGitRepository ?? false;
+  const showChangedOnly = changedOnly && isGitRoot;
+  const hoistedFolder = useMemo(() => {
+    const folder = findNodeByPath(tree, hoistedPath);
+    return folder?.type === 'folder' ? folder : tree;
+  }, [tree, hoistedPath]);
+  const visibleRows = useMemo(
+    () =>
+      hoistedFolder
+        ? flattenTree(
+            hoistedFolder,
+            expanded,
+            loadingPaths,
+            pendingCreate,
+            showChangedOnly,
+            snapshotDiff.removedByParent
+          )
+        : [],
+    [
+      hoistedFolder,
+      expanded,
+      loadingPaths,
+      pendingCreate,
+      showChangedOnly,
+      snapshotDiff,
+    ]
+  );
+  const visibleNodes = useMemo(
+    () =>
+      visibleRows.filter((row): row is VisibleNode => row.kind === 'node'),
+    [visibleRows]
+  );
+
+  const selectedRowIndex = useMemo(
+    () =>
+      visibleRows.findIndex(
+        (row) => row.kind === 'node' && row.node.path === selectedPath
+      ),
+    [visibleRows, selectedPath]
+  );
+  // aria-activedescendant must name an element in the DOM, which a selected row
+  // scrolled out of the list is not; it is pointed at again once scrolled back.
+  const isSelectedRowRendered =
+    selectedRowIndex >= renderedRows.start &&
+    selectedRowIndex <= renderedRows.stop;
 
   useEffect(() => {
     if (!loading && !error && tree) {
@@ -188,52 +860,319 @@ export function FileExplorer() {
   }, [loading, error, tree]);
 
   useEffect(() => {
+    // The name field, context menu and quick open manage their own focus.
+    if (editing || contextMenu || isQuickOpenOpen) return;
+
     if (!selectedPath) {
       treeContainerRef.current?.focus();
       return;
     }
 
-    const el = nodeRefs.current[selectedPath];
-    if (el) {
-      el.scrollIntoView({ block: 'nearest' });
+    // The selected row may not be rendered, so scroll the list rather than the element.
+    if (selectedRowIndex >= 0) {
+      listRef.current?.scrollToItem(selectedRowIndex, 'smart');
     }
     treeContainerRef.current?.focus();
-  }, [selectedPath, visibleNodes]);
+  }, [selectedPath, visibleRows, editing, contextMenu, isQuickOpenOpen]);
+
+  useEffect(() => {
+    if (!editing) return;
+
+    // The name field only mounts (and focuses itself) once its row is rendered.
+    const key =
+      editing.mode === 'create' ? `create:${editing.parentPath}` : editing.path;
+    const rowIndex = visibleRows.findIndex((row) => rowKey(row) === key);
+    if (rowIndex >= 0) {
+      listRef.current?.scrollToItem(rowIndex, 'smart');
+    }
+  }, [editing]);
+
+  const selectedNode = findNodeByPath(tree, selectedPath);
+  const selectedDiff = selectedNode
+    ? snapshotDiff.byPath.get(selectedNode.path)
+    : undefined;
+  const selectedNodes = useMemo(() => {
+    const nodes: TreeNode[] = [];
+    selectedPaths.forEach((path) => {
+      const node = findNodeByPath(tree, path);
+      if (node) nodes.push(node);
+    });
+    return nodes;
+  }, [tree, selectedPaths]);
+
+  /**
+   * The selected folder, or the folder holding the selection: what the treemap shows
+   * and what the activity feed can be narrowed to.
+   */
+  const currentFolder = useMemo(() => {
+    const node = findNodeByPath(tree, selectedPath);
+    if (node?.type === 'folder') {
+      return node;
+    }
+    const parent = node ? findNodeByPath(tree, parentPathOf(node.path)) : null;
+    return parent?.type === 'folder' ? parent : tree;
+  }, [tree, selectedPath]);
+
+  /** Actions on a selected row apply to the whole selection, otherwise just to it. */
+  const targetsFor = (node: TreeNode | null): TreeNode[] => {
+    if (!node) return [];
+    return selectedPaths.has(node.path) ? selectedNodes : [node];
+  };
+
+  const runMutation = async (mutation: () => Promise<TreePatch>) => {
+    setMutationError(null);
+    mutationsInFlightRef.current++;
+    try {
+      const patch = await mutation();
+      // The watcher reports the same change, usually after this response.
+      applyPatches(
+        withoutEchoes(pendingEchoesRef.current, [patch], 'response', true)
+      );
+      return patch;
+    } catch (err) {
+      setMutationError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      mutationsInFlightRef.current--;
+    }
+  };
+
+  /** New entries go into the target folder, or next to the target file. */
+  const startCreate = (
+    entryType: 'file' | 'folder',
+    target: TreeNode | null
+  ) => {
+    if (!tree) return;
+
+    const parentNode =
+      target?.type === 'folder'
+        ? target
+        : findNodeByPath(tree, target ? parentPathOf(target.path) : null);
+    const parent = parentNode?.type === 'folder' ? parentNode : tree;
+
+    if (!expanded.has(parent.path)) {
+      expandFolder(parent);
+    }
+    setEditing({ mode: 'create', parentPath: parent.path, entryType });
+  };
 
-  const countFiles = (node: TreeNode): number => {
-    if (node.type === 'file') return 1;
-    return (node.children ?? []).reduce(
-      (sum, child) => sum + countFiles(child),
-      0
+  const startRename = (target: TreeNode | null) => {
+    if (!target || target.path === 'root') return;
+    setEditing({ mode: 'rename', path: target.path });
+  };
+
+  const deleteWithConfirmation = async (targets: TreeNode[]) => {
+    // Deleting a folder already takes its selected descendants with it.
+    const deletable = targets.filter(
+      (target) =>
+        target.path !== 'root' &&
+        !targets.some(
+          (other) =>
+            other.path !== target.path &&
+            isSameOrAncestorPath(other.path, target.path)
+        )
     );
+    if (deletable.length === 0 || !scope) return;
+
+    const [first] = deletable;
+    let message = `Delete ${deletable.length} items?`;
+    if (deletable.length === 1) {
+      message =
+        first.type === 'folder'
+          ? `Delete "${first.name}" and everything in it?`
+          : `Delete "${first.name}"?`;
+    }
+    if (!window.confirm(message)) return;
+
+    for (const target of deletable) {
+      const patch = await runMutation(() => deleteEntry(scope, target.path));
+      if (!patch) break;
+    }
   };
 
-  const selectedNode = findNodeByPath(tree, selectedPath);
+  const commitEdit = async (name: string) => {
+    const current = editing;
+    setEditing(null);
+    if (!current || !scope) return;
+
+    const patch = await runMutation(() =>
+      current.mode === 'create'
+        ? createEntry(scope, {
+            parentPath: current.parentPath,
+            name,
+            type: current.entryType,
+          })
+        : updateEntry(scope, { path: current.path, name })
+    );
+
+    if (patch) {
+      selectOnly(patch.path);
+    }
+  };
 
-  const onNodeClick = (item: VisibleNode) => {
+  const handleContextMenuAction = (action: ContextMenuAction) => {
+    const target = contextMenu
+      ? findNodeByPath(tree, contextMenu.path)
+      : selectedNode;
+    setContextMenu(null);
+
+    if (action === 'new-file' || action === 'new-folder') {
+      startCreate(action === 'new-file' ? 'file' : 'folder', target);
+    } else if (action === 'focus') {
+      hoistFolder(target?.path ?? null);
+    } else if (action === 'rename') {
+      startRename(target);
+    } else {
+      deleteWithConfirmation(targetsFor(target));
+    }
+  };
+
+  /**
+   * Moves an entry into another folder, updating the tree before the server answers and
+   * putting the entry back if the move fails.
+   */
+  const moveWithRollback = async (sourcePath: string, folderPath: string) => {
+    const source = findNodeByPath(tree, sourcePath);
+    const folder = findNodeByPath(tree, folderPath);
+    if (!scope || !source || folder?.type !== 'folder') return;
+
+    const targetPath = `${folderPath}/${source.name}`;
+    if (folder.children.some((child) => child.path === targetPath)) {
+      setMutationError(`${targetPath} already exists.`);
+      return;
+    }
+
+    setMutationError(null);
+    applyPatches([
+      {
+        op: 'renamed',
+        from: sourcePath,
+        path: targetPath,
+        node: { ...source, path: targetPath },
+      },
+    ]);
+
+    try {
+      const patches = await moveEntries(scope, {
+        paths: [sourcePath],
+        targetPath: folderPath,
+      });
+      applyPatches(patches);
+    } catch (err) {
+      applyPatches([
+        { op: 'renamed', from: targetPath, path: sourcePath, node: source },
+      ]);
+      setMutationError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const { draggingPath, dropTarget, getDragProps } = useTreeDragAndDrop({
+    expanded,
+    onExpand: expandFolder,
+    onMove: moveWithRollback,
+  });
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const openContextMenuForSelection = () => {
+    if (!selectedPath) return;
+    const rect = nodeRefs.current[selectedPath]?.getBoundingClientRect();
+    if (!rect) return;
+    setContextMenu({
+      x: rect.left + INDENT,
+      y: rect.bottom,
+      path: selectedPath,
+    });
+  };
+
+  const onNodeClick = (
+    item: VisibleNode,
+    modifiers: { toggle: boolean; range: boolean }
+  ) => {
     const target = item.node;
 
+    if (modifiers.range) {
+      selectRange(target.path);
+      return;
+    }
+    if (modifiers.toggle) {
+      toggleSelected(target.path);
+      return;
+    }
+
     if (target.type === 'folder') {
-      setExpanded((prev) => {
-        const newSet = new Set(prev);
-        if (prev.has(target.path)) {
+      if (expanded.has(target.path)) {
+        setExpanded((prev) => {
+          const newSet = new Set(prev);
           newSet.delete(target.path);
-        } else {
-          newSet.add(target.path);
-        }
-        return newSet;
-      });
+          return newSet;
+        });
+      } else {
+        expandFolder(target);
+      }
     }
 
- 
-    setSelectedPath(target.path);
-    setTree((prev) => (prev ? { ...prev } : prev));
+    selectOnly(target.path);
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
-    const { key, ctrlKey, metaKey, altKey } = event;
+    const { key, ctrlKey, metaKey, altKey, shiftKey } = event;
+
+    if (key === 'F2') {
+      event.preventDefault();
+      startRename(selectedNode);
+      return;
+    }
+
+    if (key === 'Delete') {
+      event.preventDefault();
+      deleteWithConfirmation(targetsFor(selectedNode));
+      return;
+    }
+
+    if ((ctrlKey || metaKey) && key.toLowerCase() === 'a') {
+      event.preventDefault();
+      setSelectedPaths(
+        new Set(
+          visibleNodes
+            .map((item) => item.node.path)
+            .filter((path) => path !== 'root')
+        )
+      );
+      return;
+    }
+
+    if ((ctrlKey || metaKey) && key.toLowerCase() === 'n') {
+      event.preventDefault();
+      startCreate(shiftKey ? 'folder' : 'file', selectedNode);
+      return;
+    }
 
-    if (key.startsWith('Arrow')) {
+    if ((ctrlKey || metaKey) && key.toLowerCase() === 'p') {
+      event.preventDefault();
+      setIsQuickOpenOpen(true);
+      return;
+    }
+
+    if (key === 'ContextMenu' || (shiftKey && key === 'F10')) {
+      event.preventDefault();
+      openContextMenuForSelection();
+      return;
+    }
+
+    // Alt+Right focuses the tree on the selected folder, or the one holding the
+    // selection; Alt+Left moves the focus one folder up.
+    if (altKey && (key === 'ArrowRight' || key === 'ArrowLeft')) {
+      event.preventDefault();
+      if (key === 'ArrowRight') {
+        hoistFolder(currentFolder?.path ?? null);
+      } else if (hoistedPath) {
+        hoistFolder(parentPathOf(hoistedPath));
+      }
+      return;
+    }
+
+    if (key.startsWith('Arrow') || key === 'Home' || key === 'End') {
       event.preventDefault();
       if (visibleNodes.length === 0) return;
 
@@ -243,35 +1182,88 @@ export function FileExplorer() {
       const normalizedIndex = currentIndex >= 0 ? currentIndex : 0;
       const current = visibleNodes[normalizedIndex];
 
+      const moveTo = (path: string) =>
+        shiftKey ? selectRange(path) : selectOnly(path);
+
+      if (key === 'Home') {
+        moveTo(visibleNodes[0].node.path);
+        return;
+      }
+
+      if (key === 'End') {
+        moveTo(visibleNodes[visibleNodes.length - 1].node.path);
+        return;
+      }
+
       if (key === 'ArrowUp') {
         const prevIndex =
           normalizedIndex > 0 ? normalizedIndex - 1 : visibleNodes.length - 1;
-        setSelectedPath(visibleNodes[prevIndex].node.path);
+        moveTo(visibleNodes[prevIndex].node.path);
         return;
       }
 
       if (key === 'ArrowDown') {
         const nextIndex =
           normalizedIndex < visibleNodes.length - 1 ? normalizedIndex + 1 : 0;
-        setSelectedPath(visibleNodes[nextIndex].node.path);
+        moveTo(visibleNodes[nextIndex].node.path);
         return;
       }
 
-      if (current?.node.type === 'folder') {
-        if (key === 'ArrowRight' && !expanded.has(current.node.path)) {
-          setExpanded((prev) => new Set(prev).add(current.node.path));
+      const isOpenFolder =
+        current.node.type === 'folder' && expanded.has(current.node.path);
+
+      if (key === 'ArrowRight') {
+        if (current.node.type === 'folder' && !isOpenFolder) {
+          expandFolder(current.node);
+          return;
         }
-        if (key === 'ArrowLeft' && expanded.has(current.node.path)) {
+        // An open folder moves on to its first child, if it has any listed.
+        const next = visibleNodes[normalizedIndex + 1];
+        if (isOpenFolder && next?.depth === current.depth + 1) {
+          selectOnly(next.node.path);
+        }
+        return;
+      }
+
+      if (key === 'ArrowLeft') {
+        if (isOpenFolder) {
           setExpanded((prev) => {
             const next = new Set(prev);
             next.delete(current.node.path);
             return next;
           });
+          return;
+        }
+        // Otherwise to the parent, which is the closest row above that is less deep.
+        const parent = visibleNodes
+          .slice(0, normalizedIndex)
+          .reverse()
+          .find((item) => item.depth < current.depth);
+        if (parent) {
+          selectOnly(parent.node.path);
         }
       }
       return;
     }
 
+    if (key === '*') {
+      event.preventDefault();
+      const current = findNodeByPath(tree, selectedPath);
+      if (!current) return;
+
+      const parent =
+        current.path === 'root'
+          ? null
+          : findNodeByPath(tree, parentPathOf(current.path));
+      const siblings = parent?.type === 'folder' ? parent.children : [current];
+      siblings.forEach((sibling) => {
+        if (sibling.type === 'folder' && !expanded.has(sibling.path)) {
+          expandFolder(sibling);
+        }
+      });
+      return;
+    }
+
     if (key.length !== 1 || ctrlKey || metaKey || altKey) return;
 
     event.preventDefault();
@@ -301,39 +1293,303 @@ export function FileExplorer() {
     );
 
     if (match) {
-      setSelectedPath(match.node.path);
+      selectOnly(match.node.path);
     }
   };
 
+  const renderRow = (item: VisibleRow): ReactNode => {
+    if (item.kind === 'create') {
+      return (
+        <NameEditor
+          initialName=""
+          icon={item.entryType === 'folder' ? '📁' : '📄'}
+          label={`New ${item.entryType} name`}
+          paddingLeft={INDENT + item.depth * INDENT}
+          onCommit={commitEdit}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+
+    if (item.kind === 'removed') {
+      return <RemovedRowView row={item} />;
+    }
+
+    if (item.kind !== 'node') {
+      return (
+        <PlaceholderRowView
+          row={item}
+          isLoading={loadingPaths.has(item.folder.path)}
+          error={loadErrors[item.folder.path] ?? null}
+          onLoadMore={() =>
+            loadFolderPage(item.folder.path, item.folder.nextCursor)
+          }
+        />
+      );
+    }
+
+    const { node, depth, positionInSet, setSize } = item;
+    const isFolder = node.type === 'folder';
+    const isExpanded = expanded.has(node.path);
+    const isSelected = selectedPaths.has(node.path);
+    const isFocused = node.path === selectedPath;
+    const isDropTarget = dropTarget?.path === node.path;
+    const diff = snapshotDiff.byPath.get(node.path);
+
+    if (editing?.mode === 'rename' && editing.path === node.path) {
+      return (
+        <NameEditor
+          initialName={node.name}
+          icon={nodeIcon(node, false)}
+          label={`Rename ${node.name}`}
+          paddingLeft={INDENT + depth * INDENT}
+          onCommit={commitEdit}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+
+    return (
+      <div className="file-explorer__node--wrapper">
+        <button
+          type="button"
+          id={nodeElementId(idPrefix, node.path)}
+          role="treeitem"
+          aria-level={depth + 1}
+          aria-posinset={positionInSet}
+          aria-setsize={setSize}
+          aria-expanded={isFolder ? isExpanded : undefined}
+          aria-selected={isSelected}
+          className={[
+            'file-explorer__node',
+            `file-explorer__node--${node.type}`,
+            node.type === 'symlink' && node.broken
+              ? 'file-explorer__node--broken'
+              : '',
+            isSelected ? 'file-explorer__node--selected' : '',
+            isFocused && selectedPaths.size > 1
+              ? 'file-explorer__node--focused'
+              : '',
+            node.ignored ? 'file-explorer__node--ignored' : '',
+            node.gitStatus ? `file-explorer__node--git-${node.gitStatus}` : '',
+            recentChanges.has(node.path) ? 'file-explorer__node--recent' : '',
+            diff ? `file-explorer__node--diff-${diff.kind}` : '',
+            snapshotDiff.changedFolders.has(node.path)
+              ? 'file-explorer__node--diff-contains'
+              : '',
+            draggingPath === node.path
+              ? 'file-explorer__node--dragging'
+              : '',
+            isDropTarget && dropTarget.isValid
+              ? 'file-explorer__node--drop-target'
+              : '',
+            isDropTarget && !dropTarget.isValid
+              ? 'file-explorer__node--drop-invalid'
+              : '',
+          ]
+            .filter(Boolean)
+            .join(' ')}
+          style={{ paddingLeft: INDENT + depth * INDENT }}
+          {...getDragProps(node)}
+          // Mouse-down is left alone, since cancelling it keeps some browsers from
+          // starting a drag. Selecting and toggling wait for the click, which a drag
+          // never becomes, and hand focus back to the tree, which points at rows with
+          // aria-activedescendant.
+          onClick={(e) => {
+            treeContainerRef.current?.focus();
+            onNodeClick(item, {
+              toggle: e.ctrlKey || e.metaKey,
+              range: e.shiftKey,
+            });
+          }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            if (selectedPaths.has(node.path)) {
+              setSelectedPath(node.path);
+            } else {
+              selectOnly(node.path);
+            }
+            setContextMenu({
+              x: e.clientX,
+              y: e.clientY,
+              path: node.path,
+            });
+          }}
+          tabIndex={-1}
+          ref={(el) => {
+            if (el) {
+              nodeRefs.current[node.path] = el;
+            } else {
+              delete nodeRefs.current[node.path];
+            }
+          }}
+        >
+          <span>
+            {nodeIcon(node, isExpanded)} {node.name}
+          </span>
+          {node.gitStatus && node.type !== 'folder' && (
+            <span
+              className="file-explorer__git-status"
+              title={GIT_STATUS_LABELS[node.gitStatus]}
+            >
+              {GIT_STATUS_LETTERS[node.gitStatus]}
+            </span>
+          )}
+          {diff && (
+            <span
+              className={`file-explorer__diff-status file-explorer__diff-status--${diff.kind}`}
+              title={describeSnapshotChange(diff)}
+            >
+              {SNAPSHOT_CHANGE_LETTERS[diff.kind]}
+            </span>
+          )}
+          {isFolder && (
+            <span
+              className={[
+                'file-explorer__badge',
+                node.gitStatus
+                  ? `file-explorer__badge--git-${node.gitStatus}`
+                  : '',
+              ]
+                .filter(Boolean)
+                .join(' ')}
+              title={`${node.aggregate.fileCount} files, ${formatBytes(
+                node.aggregate.totalBytes
+              )}`}
+            >
+              {node.aggregate.fileCount}
+            </span>
+          )}
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="file-explorer">
       <div className="file-explorer__tree">
         <header className="file-explorer__toolbar">
           <p className="file-explorer__hint">
-            Enhance this view with keyboard type-ahead support.
+            Arrows move and open folders, typing jumps to a name, Alt+→ focuses a
+            folder.
           </p>
-          <div className="file-explorer__watcher-status">
+          <button
+            type="button"
+            className="file-explorer__search-button"
+            disabled={!rootId || loading}
+            onClick={() => setIsQuickOpenOpen(true)}
+          >
+            Go to file… <kbd>Ctrl+P</kbd>
+          </button>
+          <label className="file-explorer__toggle">
+            <input
+              type="checkbox"
+              checked={showHidden}
+              onChange={(event) => toggleShowHidden(event.target.checked)}
+            />
+            <span>Show hidden and ignored files</span>
+          </label>
+          {isGitRoot && (
+            <label className="file-explorer__toggle">
+              <input
+                type="checkbox"
+                checked={changedOnly}
+                onChange={(event) => setChangedOnly(event.target.checked)}
+              />
+              <span>Changed files only</span>
+            </label>
+          )}
+          <SortControl value={sortOrder} onChange={changeSortOrder} />
+          {scope && (
+            <SnapshotControl
+              scope={scope}
+              value={comparedSnapshot}
+              onChange={setComparedSnapshot}
+              onError={setMutationError}
+            />
+          )}
+          {comparedSnapshot && (
+            <p className="file-explorer__diff-summary" role="status">
+              {summarizeSnapshotChanges(snapshotChanges)}
+            </p>
+          )}
+          {roots.length > 1 && (
+            <label className="file-explorer__root-switcher">
+              <span>Root</span>
+              <select
+                value={rootId ?? ''}
+                onChange={(event) => switchRoot(event.target.value)}
+              >
+                {roots.map((root) => (
+                  <option key={root.id} value={root.id}>
+                    {root.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="file-explorer__watcher-status" role="status">
             <span
-              className={`file-explorer__watcher-indicator ${
-                isWatching ? 'file-explorer__watcher-indicator--active' : ''
-              }`}
+              className={`file-explorer__watcher-indicator file-explorer__watcher-indicator--${watcherStatus}`}
             />
             <span>
-              {isWatching ? 'Watching for changes' : 'Not watching'}
+              {WATCHER_STATUS_LABELS[watcherStatus]}
               {lastUpdateTime && (
                 <span className="file-explorer__watcher-time">
                   {' • '}Last update: {lastUpdateTime}
                 </span>
               )}
             </span>
+            {(watcherStatus === 'stale' || watcherStatus === 'offline') &&
+              scope && (
+                <button
+                  type="button"
+                  className="file-explorer__reconnect"
+                  onClick={reconnect}
+                >
+                  Reconnect
+                </button>
+              )}
           </div>
+          {mutationError && (
+            <p className="file-explorer__mutation-error" role="alert">
+              {mutationError}
+              <button
+                type="button"
+                aria-label="Dismiss error"
+                onClick={() => setMutationError(null)}
+              >
+                ×
+              </button>
+            </p>
+          )}
         </header>
 
+        {tree && !loading && (
+          <TreeBreadcrumbs
+            tree={tree}
+            path={selectedPath ?? hoistedPath ?? 'root'}
+            hoistedPath={hoistedPath}
+            onSelect={(path) => revealPath(path)}
+            onHoist={hoistFolder}
+          />
+        )}
+
         <div
           ref={treeContainerRef}
           className="file-explorer__body"
           role="tree"
-          aria-label="Project files"
+          aria-label={
+            hoistedFolder && hoistedPath
+              ? `Files in ${hoistedFolder.name}`
+              : 'Project files'
+          }
+          aria-multiselectable="true"
+          aria-activedescendant={
+            selectedPath && isSelectedRowRendered && editing?.mode !== 'rename'
+              ? nodeElementId(idPrefix, selectedPath)
+              : undefined
+          }
           tabIndex={0}
           onKeyDown={handleKeyDown}
         >
@@ -350,60 +1606,132 @@ export function FileExplorer() {
             <p className="file-explorer__status">No files to display.</p>
           )}
 
-          {!loading &&
-            !error &&
-            visibleNodes.map((item) => {
-              const { node, depth } = item;
-              const fileTotal = countFiles(node);
-              const isFolder = node.type === 'folder';
-              const isExpanded = expanded.has(node.path);
-              const isSelected = node.path === selectedPath;
-
-              return (
-                <div key={node.path} className="file-explorer__node--wrapper">
-                  <button
-                    type="button"
-                    role="treeitem"
-                    aria-expanded={isFolder ? isExpanded : undefined}
-                    className={[
-                      'file-explorer__node',
-                      isFolder
-                        ? 'file-explorer__node--folder'
-                        : 'file-explorer__node--file',
-                      isSelected ? 'file-explorer__node--selected' : '',
-                    ]
-                      .filter(Boolean)
-                      .join(' ')}
-                    style={{ paddingLeft: INDENT + depth * INDENT }}
-                    onMouseDown={(e) => {
-                      e.preventDefault();
-                      onNodeClick(item);
-                    }}
-                    tabIndex={-1}
-                    ref={(el) => {
-                      if (el) {
-                        nodeRefs.current[node.path] = el;
-                      } else {
-                        delete nodeRefs.current[node.path];
-                      }
-                    }}
-                  >
-                    <span>
-                      {isFolder ? (isExpanded ? '📂' : '📁') : '📄'} {node.name}
-                    </span>
-                    <span className="file-explorer__badge">{fileTotal}</span>
-                  </button>
-                </div>
-              );
-            })}
+          {!loading && !error && visibleRows.length > 0 && (
+            <FixedSizeList
+              ref={listRef}
+              className="file-explorer__list"
+              style={LIST_STYLE}
+              height={listHeight}
+              width="100%"
+              itemCount={visibleRows.length}
+              itemSize={ROW_HEIGHT}
+              itemData={{ rows: visibleRows, renderRow }}
+              itemKey={(index, data) => rowKey(data.rows[index])}
+              overscanCount={OVERSCAN_ROWS}
+              onItemsRendered={({ overscanStartIndex, overscanStopIndex }) =>
+                setRenderedRows((prev) =>
+                  prev.start === overscanStartIndex &&
+                  prev.stop === overscanStopIndex
+                    ? prev
+                    : { start: overscanStartIndex, stop: overscanStopIndex }
+                )
+              }
+            >
+              {VirtualRow}
+            </FixedSizeList>
+          )}
         </div>
+        <p className="file-explorer__live-region" aria-live="polite">
+          {announcement}
+        </p>
+        {contextMenu && (
+          <TreeContextMenu
+            x={contextMenu.x}
+            y={contextMenu.y}
+            canModify={contextMenu.path !== 'root'}
+            canFocus={
+              findNodeByPath(tree, contextMenu.path)?.type === 'folder' &&
+              contextMenu.path !== (hoistedPath ?? 'root')
+            }
+            onAction={handleContextMenuAction}
+            onClose={closeContextMenu}
+          />
+        )}
+        {isQuickOpenOpen && scope && (
+          <QuickOpen
+            scope={scope}
+            onSelect={(path) => {
+              setIsQuickOpenOpen(false);
+              revealPath(path);
+            }}
+            onClose={() => setIsQuickOpenOpen(false)}
+          />
+        )}
       </div>
 
       <aside
         className="file-explorer__details"
         aria-label="Selected item details"
       >
-        {selectedNode ? (
+        <div className="file-explorer__tabs" role="tablist">
+          {DETAILS_VIEWS.map((view) => (
+            <button
+              key={view}
+              type="button"
+              role="tab"
+              aria-selected={detailsView === view}
+              className={
+                detailsView === view
+                  ? 'file-explorer__tab file-explorer__tab--active'
+                  : 'file-explorer__tab'
+              }
+              onClick={() => setDetailsView(view)}
+            >
+              {DETAILS_VIEW_LABELS[view]}
+            </button>
+          ))}
+        </div>
+        {detailsView === 'search' && scope ? (
+          <>
+            <ContentSearch
+              scope={scope}
+              folder={
+                currentFolder && currentFolder.path !== 'root'
+                  ? { path: currentFolder.path, name: currentFolder.name }
+                  : null
+              }
+              onOpen={(path, line) => {
+                setSearchHit({ path, line });
+                revealPath(path);
+              }}
+            />
+            {selectedNode?.type === 'file' && rootId && (
+              <FilePreview
+                rootId={rootId}
+                file={selectedNode}
+                highlightLine={
+                  searchHit?.path === selectedNode.path
+                    ? searchHit.line
+                    : undefined
+                }
+              />
+            )}
+          </>
+        ) : detailsView === 'activity' && scope ? (
+          <ActivityFeed
+            scope={scope}
+            folder={
+              currentFolder && currentFolder.path !== 'root'
+                ? { path: currentFolder.path, name: currentFolder.name }
+                : null
+            }
+            refreshKey={historyVersion}
+            onSelect={(path) => revealPath(path)}
+          />
+        ) : detailsView === 'treemap' && tree && currentFolder ? (
+          <DiskUsageTreemap
+            folder={currentFolder}
+            rootName={tree.name}
+            selectedPath={selectedPath}
+            isLoading={loadingPaths.has(currentFolder.path)}
+            onSelect={(path) => revealPath(path)}
+            onLoadMore={(folder) =>
+              loadFolderPage(folder.path, folder.nextCursor)
+            }
+          />
+        ) : selectedNodes.length > 1 ? (
+          <SelectionSummary nodes={selectedNodes} />
+        ) : selectedNode ? (
           <div>
             <h2 className="file-explorer__details-title">
               {selectedNode.name}
@@ -411,11 +1739,62 @@ export function FileExplorer() {
             <dl className="file-explorer__details-grid">
               <dt>Path</dt>
               <dd>{selectedNode.path}</dd>
+              {selectedNode.gitStatus && (
+                <>
+                  <dt>Git status</dt>
+                  <dd>{GIT_STATUS_LABELS[selectedNode.gitStatus]}</dd>
+                </>
+              )}
+              {selectedDiff && (
+                <>
+                  <dt>Since {comparedSnapshot}</dt>
+                  <dd>{describeSnapshotChange(selectedDiff)}</dd>
+                </>
+              )}
+              {selectedNode.type === 'folder' && (
+                <>
+                  <dt>Items</dt>
+                  <dd>{selectedNode.childCount}</dd>
+                  {selectedNode.linkTarget !== undefined && (
+                    <>
+                      <dt>Link to</dt>
+                      <dd>{selectedNode.linkTarget}</dd>
+                    </>
+                  )}
+                </>
+              )}
+              {selectedNode.type === 'file' && (
+                <>
+                  <dt>Size</dt>
+                  <dd>{formatBytes(selectedNode.sizeInBytes)}</dd>
+                  <dt>Modified</dt>
+                  <dd>{formatDateTime(selectedNode.modifiedAt)}</dd>
+                  <dt>Type</dt>
+                  <dd>{selectedNode.extension ?? 'No extension'}</dd>
+                </>
+              )}
+              {selectedNode.type === 'symlink' && (
+                <>
+                  <dt>Link to</dt>
+                  <dd>{selectedNode.target}</dd>
+                  <dt>Target</dt>
+                  <dd>{describeLinkTarget(selectedNode)}</dd>
+                </>
+              )}
             </dl>
-            <p className="file-explorer__next-step">
-              Flesh this panel out with richer insights derived from the data
-              source.
-            </p>
+            {selectedNode.type === 'folder' && (
+              <AggregateDetails aggregate={selectedNode.aggregate} />
+            )}
+            {selectedNode.type === 'folder' && scope && (
+              <FolderExport
+                scope={scope}
+                folder={selectedNode}
+                sortOrder={sortOrder}
+              />
+            )}
+            {selectedNode.type === 'file' && rootId && (
+              <FilePreview rootId={rootId} file={selectedNode} />
+            )}
           </div>
         ) : (
           <div className="file-explorer__placeholder">
@@ -428,82 +1807,372 @@ export function FileExplorer() {
   );
 }
 
-function flattenTree(root: FolderNode, expanded: Set<string>): VisibleNode[] {
-  const result: VisibleNode[] = [];
+/**
+ * Folders followed through a symlink keep the folder icons with a link arrow, so they
+ * still show whether they are open; links listed as links get their own icons.
+ */
+function nodeIcon(node: TreeNode, isExpanded: boolean): string {
+  switch (node.type) {
+    case 'file':
+      return '📄';
+    case 'folder': {
+      const icon = isExpanded ? '📂' : '📁';
+      return node.linkTarget !== undefined ? `${icon}↪` : icon;
+    }
+    case 'symlink':
+      return node.broken ? '⛓️' : '🔗';
+  }
+}
+
+const DETAILS_VIEWS: DetailsView[] = [
+  'details',
+  'treemap',
+  'activity',
+  'search',
+];
+
+const DETAILS_VIEW_LABELS: Record<DetailsView, string> = {
+  details: 'Details',
+  treemap: 'Disk usage',
+  activity: 'Activity',
+  search: 'Find in files',
+};
 
-  const visit = (node: TreeNode, depth: number) => {
-    result.push({ node, depth });
+const REMOVED_ICONS: Record<TreeNode['type'], string> = {
+  file: '📄',
+  folder: '📁',
+  symlink: '🔗',
+};
 
-    if (node.type === 'folder' && expanded.has(node.path)) {
-      node.children.forEach((child) => visit(child, depth + 1));
-    }
-  };
+const SNAPSHOT_CHANGE_KINDS: SnapshotChangeKind[] = [
+  'added',
+  'modified',
+  'moved',
+  'removed',
+];
+
+const SNAPSHOT_CHANGE_LETTERS: Record<SnapshotChangeKind, string> = {
+  added: 'A',
+  modified: 'M',
+  moved: 'R',
+  removed: 'D',
+};
 
-  visit(root, 0);
+const SNAPSHOT_CHANGE_LABELS: Record<SnapshotChangeKind, string> = {
+  added: 'Added',
+  modified: 'Modified',
+  moved: 'Moved',
+  removed: 'Removed',
+};
 
-  return result;
+const WATCHER_STATUS_LABELS: Record<WatcherStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Watching for changes',
+  reconnecting: 'Connection lost, reconnecting…',
+  stale: 'Still reconnecting; the tree may be out of date',
+  offline: 'Not watching',
+};
+
+const GIT_STATUS_LETTERS: Record<GitStatus, string> = {
+  conflicted: 'C',
+  modified: 'M',
+  added: 'A',
+  untracked: 'U',
+  ignored: 'I',
+};
+
+const GIT_STATUS_LABELS: Record<GitStatus, string> = {
+  conflicted: 'Conflicted',
+  modified: 'Modified',
+  added: 'Added',
+  untracked: 'Untracked',
+  ignored: 'Ignored by git',
+};
+
+function describeLinkTarget(link: SymlinkNode): string {
+  if (link.broken) {
+    return 'Missing (broken link)';
+  }
+
+  const kind =
+    link.targetType === 'folder'
+      ? 'Folder'
+      : link.targetType === 'file'
+      ? 'File'
+      : 'Special file';
+  if (link.outsideRoot) {
+    return `${kind} outside the root, not followed`;
+  }
+  if (link.cycle) {
+    return `${kind} above this link, not followed`;
+  }
+  if (link.targetType === 'folder') {
+    return `${kind}, not followed (links are not followed in this root)`;
+  }
+  return kind;
 }
 
-function findNodeByPath(
-  root: FolderNode | null,
-  path: string | null
-): TreeNode | null {
-  if (!root || !path) {
-    return null;
+/**
+ * Rows are keyed by what they show rather than by index, so inserting or removing rows
+ * above an open name field keeps it mounted.
+ */
+function rowKey(row: VisibleRow): string {
+  if (row.kind === 'node') return row.node.path;
+  if (row.kind === 'create') return `create:${row.parentPath}`;
+  if (row.kind === 'removed') return `removed:${row.change.path}`;
+  return `${row.kind}:${row.folder.path}`;
+}
+
+/**
+ * Defined outside FileExplorer so react-window sees the same component on every render;
+ * the rendering itself stays in FileExplorer and is passed in through `data`.
+ */
+const VirtualRow = memo(function VirtualRow({
+  index,
+  style,
+  data,
+}: ListChildComponentProps<VirtualRowData>) {
+  return <div style={style}>{data.renderRow(data.rows[index])}</div>;
+});
+
+function RemovedRowView({ row }: { row: RemovedRow }) {
+  const { change } = row;
+  const name = change.path.slice(change.path.lastIndexOf('/') + 1);
+
+  return (
+    <div className="file-explorer__node--wrapper">
+      <p
+        className="file-explorer__node file-explorer__node--diff-removed"
+        style={{ paddingLeft: INDENT + row.depth * INDENT }}
+      >
+        <span>
+          {REMOVED_ICONS[change.type]} {name}
+        </span>
+        <span
+          className="file-explorer__diff-status file-explorer__diff-status--removed"
+          title={SNAPSHOT_CHANGE_LABELS.removed}
+        >
+          {SNAPSHOT_CHANGE_LETTERS.removed}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+function PlaceholderRowView({
+  row,
+  isLoading,
+  error,
+  onLoadMore,
+}: {
+  row: PlaceholderRow;
+  isLoading: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+}) {
+  const style = { paddingLeft: INDENT + row.depth * INDENT };
+
+  if (row.kind === 'loading') {
+    return (
+      <div className="file-explorer__node--wrapper">
+        <p className="file-explorer__row-status" style={style} role="status">
+          Loading…
+        </p>
+      </div>
+    );
   }
 
-  if (root.path === path) {
-    return root;
+  const remaining = row.folder.childCount - row.folder.children.length;
+  let label = `Load ${remaining} more`;
+  if (isLoading) {
+    label = 'Loading more…';
+  } else if (error) {
+    label = `Failed to load (${error}). Retry`;
   }
 
-  const stack: TreeNode[] = root ? [...root.children] : [];
+  return (
+    <div className="file-explorer__node--wrapper">
+      <button
+        type="button"
+        className={[
+          'file-explorer__load-more',
+          error ? 'file-explorer__load-more--error' : '',
+        ]
+          .filter(Boolean)
+          .join(' ')}
+        style={style}
+        disabled={isLoading}
+        tabIndex={-1}
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onLoadMore}
+      >
+        {label}
+      </button>
+    </div>
+  );
+}
 
-  while (stack.length > 0) {
-    const current = stack.pop();
-    if (!current) {
-      continue;
+function flattenTree(
+  root: FolderNode,
+  expanded: Set<string>,
+  loadingPaths: Set<string>,
+  pendingCreate: { parentPath: string; entryType: 'file' | 'folder' } | null,
+  changedOnly: boolean,
+  removedByParent: Map<string, SnapshotChange[]>
+): VisibleRow[] {
+  const result: VisibleRow[] = [];
+
+  // Folders roll up their contents' status, so a clean folder has nothing to show.
+  const isListed = (node: TreeNode) =>
+    !changedOnly || (node.gitStatus && node.gitStatus !== 'ignored');
+
+  const visit = (
+    node: TreeNode,
+    depth: number,
+    positionInSet: number,
+    setSize: number
+  ) => {
+    result.push({ kind: 'node', node, depth, positionInSet, setSize });
+
+    if (node.type !== 'folder' || !expanded.has(node.path)) {
+      return;
     }
-    if (current.path === path) {
-      return current;
+
+    if (pendingCreate?.parentPath === node.path) {
+      result.push({ kind: 'create', ...pendingCreate, depth: depth + 1 });
     }
-    if (current.type === 'folder') {
-      stack.push(...current.children);
+
+    // Unloaded pages count towards the set, unless filtering hides an unknown share.
+    const children = node.children.filter(isListed);
+    const childSetSize =
+      node.nextCursor === null || changedOnly
+        ? children.length
+        : node.childCount;
+    children.forEach((child, index) =>
+      visit(child, depth + 1, index + 1, childSetSize)
+    );
+    removedByParent.get(node.path)?.forEach((change) => {
+      result.push({ kind: 'removed', change, depth: depth + 1 });
+    });
+
+    if (node.nextCursor === null) {
+      return;
     }
-  }
 
-  return null;
+    const isFetchingFirstPage =
+      node.children.length === 0 && loadingPaths.has(node.path);
+    result.push({
+      kind: isFetchingFirstPage ? 'loading' : 'load-more',
+      folder: node,
+      depth: depth + 1,
+    });
+  };
+
+  visit(root, 0, 1, 1);
+
+  return result;
 }
 
-function treesEqual(a: FolderNode, b: FolderNode): boolean {
-  if (a.path !== b.path || a.name !== b.name) {
-    return false;
+/** What the live region says about a batch of watcher patches, if it is worth saying. */
+function describePatches(patches: TreePatch[]): string | null {
+  // Metadata changes also come for every folder above a change, so they are not read.
+  const changes = patches.filter((patch) => patch.op !== 'metadata-changed');
+  if (changes.length === 0) {
+    return null;
   }
 
-  if (a.children.length !== b.children.length) {
-    return false;
+  if (changes.length === 1) {
+    const [patch] = changes;
+    const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+    switch (patch.op) {
+      case 'added':
+        return `${nameOf(patch.path)} was added.`;
+      case 'removed':
+        return `${nameOf(patch.path)} was removed.`;
+      case 'renamed':
+        return `${nameOf(patch.from)} was renamed to ${nameOf(patch.path)}.`;
+    }
   }
 
-  const aChildren = [...a.children].sort((x, y) =>
-    x.path.localeCompare(y.path)
-  );
-  const bChildren = [...b.children].sort((x, y) =>
-    x.path.localeCompare(y.path)
-  );
+  const counts: Record<string, number> = { added: 0, removed: 0, renamed: 0 };
+  changes.forEach((patch) => {
+    counts[patch.op] += 1;
+  });
+  const parts = Object.keys(counts)
+    .filter((op) => counts[op] > 0)
+    .map((op) => `${counts[op]} ${op}`);
+  return `Files changed: ${parts.join(', ')}.`;
+}
 
-  for (let i = 0; i < aChildren.length; i++) {
-    const aChild = aChildren[i];
-    const bChild = bChildren[i];
+/**
+ * Rows to highlight for a batch of patches. Folders get changed metadata whenever
+ * anything under them changes, so only their own additions and renames count.
+ */
+function changedPathsOf(patches: TreePatch[]): string[] {
+  return patches
+    .filter(
+      (patch) =>
+        patch.op !== 'removed' &&
+        !(patch.op === 'metadata-changed' && patch.node.type === 'folder')
+    )
+    .map((patch) => patch.path);
+}
+
+function indexSnapshotChanges(changes: SnapshotChange[]): SnapshotDiff {
+  const diff: SnapshotDiff = {
+    byPath: new Map(),
+    removedByParent: new Map(),
+    changedFolders: new Set(),
+  };
 
-    if (aChild.path !== bChild.path || aChild.name !== bChild.name) {
-      return false;
+  changes.forEach((change) => {
+    const parentPath = parentPathOf(change.path);
+    if (change.kind === 'removed') {
+      diff.removedByParent.set(parentPath, [
+        ...(diff.removedByParent.get(parentPath) ?? []),
+        change,
+      ]);
+    } else {
+      diff.byPath.set(change.path, change);
     }
 
-    if (aChild.type === 'folder' && bChild.type === 'folder') {
-      if (!treesEqual(aChild, bChild)) {
-        return false;
+    // Both ends of a move count, so the folder it left is marked as well.
+    [change.path, change.from].forEach((changedPath) => {
+      if (!changedPath) return;
+      let child = changedPath;
+      let folder = parentPathOf(child);
+      while (folder !== child && !diff.changedFolders.has(folder)) {
+        diff.changedFolders.add(folder);
+        child = folder;
+        folder = parentPathOf(folder);
       }
-    }
+    });
+  });
+
+  return diff;
+}
+
+function describeSnapshotChange(change: SnapshotChange): string {
+  return change.kind === 'moved'
+    ? `Moved from ${change.from}`
+    : SNAPSHOT_CHANGE_LABELS[change.kind];
+}
+
+function summarizeSnapshotChanges(changes: SnapshotChange[]): string {
+  if (changes.length === 0) {
+    return 'No changes';
   }
 
-  return true;
+  const counts: Partial<Record<SnapshotChangeKind, number>> = {};
+  changes.forEach((change) => {
+    counts[change.kind] = (counts[change.kind] ?? 0) + 1;
+  });
+  return SNAPSHOT_CHANGE_KINDS.filter((kind) => counts[kind])
+    .map((kind) => `${counts[kind]} ${kind}`)
+    .join(', ');
+}
+
+/** Paths may hold spaces, which ids cannot. */
+function nodeElementId(prefix: string, path: string): string {
+  return `${prefix}-node-${encodeURIComponent(path)}`;
 }
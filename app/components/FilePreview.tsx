@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import type { FileContentKind, FileNode } from '../../types/fileTree';
+import { formatBytes } from './format';
+
+/** Bytes fetched for text and hex previews; the API caps responses on its side too. */
+const PREVIEW_BYTES = 64 * 1024;
+const HEX_DUMP_BYTES = 4 * 1024;
+const HEX_BYTES_PER_ROW = 16;
+const IMAGE_PREVIEW_LIMIT = 10 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'avif',
+  'bmp',
+  'ico',
+  'svg',
+]);
+
+type PreviewState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'text'; text: string; receivedBytes: number }
+  | { status: 'binary'; bytes: Uint8Array; receivedBytes: number };
+
+export function contentUrl(rootId: string, path: string): string {
+  const params = new URLSearchParams({ root: rootId, path });
+  return `/api/file-tree/content?${params.toString()}`;
+}
+
+export function FilePreview({
+  rootId,
+  file,
+  highlightLine,
+}: {
+  rootId: string;
+  file: FileNode;
+  /** A 1-based line of a text file to mark and scroll to, e.g. a search match. */
+  highlightLine?: number;
+}) {
+  const isImage =
+    file.extension !== null &&
+    IMAGE_EXTENSIONS.has(file.extension.toLowerCase());
+
+  if (isImage) {
+    return <ImagePreview rootId={rootId} file={file} />;
+  }
+
+  return (
+    <ContentPreview
+      rootId={rootId}
+      file={file}
+      highlightLine={highlightLine}
+    />
+  );
+}
+
+function ImagePreview({ rootId, file }: { rootId: string; file: FileNode }) {
+  if (file.sizeInBytes > IMAGE_PREVIEW_LIMIT) {
+    return (
+      <p className="file-preview__notice">
+        This image is too large to preview ({formatBytes(file.sizeInBytes)}).
+      </p>
+    );
+  }
+
+  // modifiedAt busts the browser cache when the watcher reports a change.
+  const src = `${contentUrl(rootId, file.path)}&v=${encodeURIComponent(
+    file.modifiedAt
+  )}`;
+
+  return (
+    <div className="file-preview file-preview--image">
+      <img src={src} alt={`Preview of ${file.name}`} />
+    </div>
+  );
+}
+
+function ContentPreview({
+  rootId,
+  file,
+  highlightLine,
+}: {
+  rootId: string;
+  file: FileNode;
+  highlightLine?: number;
+}) {
+  const [preview, setPreview] = useState<PreviewState>({ status: 'loading' });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setPreview({ status: 'loading' });
+
+    async function loadPreview() {
+      try {
+        const response = await fetch(contentUrl(rootId, file.path), {
+          headers: { Range: `bytes=0-${PREVIEW_BYTES - 1}` },
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
+        }
+
+        const kind = response.headers.get('X-Content-Kind') as FileContentKind;
+        const bytes = new Uint8Array(await response.arrayBuffer());
+
+        if (kind === 'text') {
+          setPreview({
+            status: 'text',
+            text: new TextDecoder().decode(bytes),
+            receivedBytes: bytes.length,
+          });
+        } else {
+          setPreview({
+            status: 'binary',
+            bytes: bytes.subarray(0, HEX_DUMP_BYTES),
+            receivedBytes: Math.min(bytes.length, HEX_DUMP_BYTES),
+          });
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setPreview({
+          status: 'error',
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+
+    loadPreview();
+
+    return () => controller.abort();
+  }, [rootId, file.path, file.modifiedAt]);
+
+  if (preview.status === 'loading') {
+    return <p className="file-preview__notice">Loading preview…</p>;
+  }
+
+  if (preview.status === 'error') {
+    return (
+      <p className="file-preview__notice file-preview__notice--error">
+        Failed to load preview: {preview.message}
+      </p>
+    );
+  }
+
+  const truncationNote =
+    preview.receivedBytes < file.sizeInBytes ? (
+      <p className="file-preview__notice">
+        Showing the first {formatBytes(preview.receivedBytes)} of{' '}
+        {formatBytes(file.sizeInBytes)}.
+      </p>
+    ) : null;
+
+  return (
+    <div className="file-preview">
+      {preview.status === 'text' ? (
+        <TextPreview text={preview.text} highlightLine={highlightLine} />
+      ) : (
+        <HexDump bytes={preview.bytes} />
+      )}
+      {truncationNote}
+    </div>
+  );
+}
+
+function TextPreview({
+  text,
+  highlightLine,
+}: {
+  text: string;
+  highlightLine?: number;
+}) {
+  const lines = useMemo(() => text.split(/\r?\n/), [text]);
+  const highlightedRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [text, highlightLine]);
+
+  if (text.length === 0) {
+    return <p className="file-preview__notice">This file is empty.</p>;
+  }
+
+  return (
+    <pre className="file-preview__code" aria-label="File contents">
+      {lines.map((line, index) => (
+        <span
+          key={index}
+          ref={index + 1 === highlightLine ? highlightedRef : undefined}
+          className={
+            index + 1 === highlightLine
+              ? 'file-preview__line file-preview__line--highlighted'
+              : 'file-preview__line'
+          }
+        >
+          {line}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+function HexDump({ bytes }: { bytes: Uint8Array }) {
+  const rows = useMemo(() => {
+    const result: { offset: string; hex: string; ascii: string }[] = [];
+
+    for (let start = 0; start < bytes.length; start += HEX_BYTES_PER_ROW) {
+      const chunk = Array.from(
+        bytes.subarray(start, start + HEX_BYTES_PER_ROW)
+      );
+      result.push({
+        offset: start.toString(16).padStart(8, '0'),
+        hex: chunk
+          .map((byte) => byte.toString(16).padStart(2, '0'))
+          .join(' ')
+          .padEnd(HEX_BYTES_PER_ROW * 3 - 1, ' '),
+        ascii: chunk
+          .map((byte) =>
+            byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'
+          )
+          .join(''),
+      });
+    }
+
+    return result;
+  }, [bytes]);
+
+  return (
+    <pre className="file-preview__hex" aria-label="Hex dump">
+      {rows.map((row) => (
+        <span key={row.offset}>
+          <span className="file-preview__hex-offset">{row.offset}</span>
+          {'  '}
+          {row.hex}
+          {'  '}
+          <span className="file-preview__hex-ascii">{row.ascii}</span>
+          {'\n'}
+        </span>
+      ))}
+    </pre>
+  );
+}
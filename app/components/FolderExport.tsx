@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type {
+  ExportColumn,
+  ExportFormat,
+  FolderNode,
+  SortOrder,
+} from '../../types/fileTree';
+import {
+  defaultExportColumns,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  MAX_EXPORT_DEPTH,
+} from '../../lib/fileTree/treeExport';
+import { exportUrl, fetchExport } from './treeApi';
+import type { ExportOptions, TreeScope } from './treeApi';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown list',
+  tree: 'ASCII tree',
+};
+
+const COLUMN_LABELS: Record<ExportColumn, string> = {
+  extension: 'Type',
+  size: 'Size',
+  modified: 'Modified',
+};
+
+/**
+ * "Export this folder" in the details panel. The export is downloaded straight from the
+ * API, or fetched and copied to the clipboard. It lists the folder as it is on disk, in
+ * the explorer's current order, whatever has been loaded in the tree.
+ */
+export function FolderExport({
+  scope,
+  folder,
+  sortOrder,
+}: {
+  scope: TreeScope;
+  folder: FolderNode;
+  sortOrder: SortOrder;
+}) {
+  const [format, setFormat] = useState<ExportFormat>('tree');
+  const [depth, setDepth] = useState('');
+  /** Null until a checkbox is touched, so the format's own default applies. */
+  const [columns, setColumns] = useState<ExportColumn[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+
+  useEffect(() => {
+    setMessage(null);
+  }, [folder.path, format, depth, columns]);
+
+  const effectiveColumns = columns ?? defaultExportColumns(format);
+  const options: ExportOptions = {
+    format,
+    depth: parseDepth(depth),
+    columns,
+    order: sortOrder,
+  };
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setColumns(
+      EXPORT_COLUMNS.filter((candidate) =>
+        candidate === column ? checked : effectiveColumns.includes(candidate)
+      )
+    );
+  };
+
+  const copy = async () => {
+    setIsCopying(true);
+    try {
+      const text = await fetchExport(scope, folder.path, options);
+      await navigator.clipboard.writeText(text);
+      setMessage('Copied to the clipboard.');
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'unknown error';
+      setMessage(`Could not copy: ${reason}`);
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <section className="folder-export" aria-label="Export this folder">
+      <h3 className="folder-export__title">Export this folder</h3>
+      <div className="folder-export__options">
+        <label>
+          <span>Format</span>
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ExportFormat)}
+          >
+            {EXPORT_FORMATS.map((option) => (
+              <option key={option} value={option}>
+                {FORMAT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Depth</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_EXPORT_DEPTH}
+            placeholder="All"
+            value={depth}
+            onChange={(event) => setDepth(event.target.value)}
+          />
+        </label>
+      </div>
+      <fieldset className="folder-export__columns">
+        <legend>Include</legend>
+        {EXPORT_COLUMNS.map((column) => (
+          <label key={column} className="file-explorer__toggle">
+            <input
+              type="checkbox"
+              checked={effectiveColumns.includes(column)}
+              onChange={(event) => toggleColumn(column, event.target.checked)}
+            />
+            <span>{COLUMN_LABELS[column]}</span>
+          </label>
+        ))}
+      </fieldset>
+      <div className="folder-export__actions">
+        <a
+          className="folder-export__button"
+          href={exportUrl(scope, folder.path, options, true)}
+          download
+        >
+          Download
+        </a>
+        <button
+          type="button"
+          className="folder-export__button"
+          disabled={isCopying}
+          onClick={copy}
+        >
+          {isCopying ? 'Copying…' : 'Copy'}
+        </button>
+      </div>
+      {message && (
+        <p className="folder-export__message" role="status">
+          {message}
+        </p>
+      )}
+    </section>
+  );
+}
+
+/** The depth field, clamped to what the API accepts; empty means everything. */
+function parseDepth(value: string): number | null {
+  const depth = Math.floor(Number(value));
+  if (value === '' || !Number.isFinite(depth)) {
+    return null;
+  }
+  return Math.min(Math.max(depth, 0), MAX_EXPORT_DEPTH);
+}
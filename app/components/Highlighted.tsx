@@ -0,0 +1,26 @@
+import type { TextRange } from '../../types/fileTree';
+
+/** `text` with each of `ranges`, sorted and not overlapping, wrapped in a `<mark>`. */
+export function Highlighted({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: TextRange[];
+}) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(<mark key={start}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+}
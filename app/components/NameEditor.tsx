@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Inline text field used in place of a tree row while naming a new entry or renaming
+ * an existing one. Enter or blur commits, Escape cancels.
+ */
+export function NameEditor({
+  initialName,
+  icon,
+  label,
+  paddingLeft,
+  onCommit,
+  onCancel,
+}: {
+  initialName: string;
+  icon: string;
+  label: string;
+  paddingLeft: number;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initialName);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const settledRef = useRef(false);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    input.focus();
+    // Like most file managers, preselect the name without its extension.
+    const extensionStart = initialName.lastIndexOf('.');
+    input.setSelectionRange(
+      0,
+      extensionStart > 0 ? extensionStart : initialName.length
+    );
+  }, [initialName]);
+
+  const settle = (commit: boolean) => {
+    if (settledRef.current) return;
+    settledRef.current = true;
+
+    const name = value.trim();
+    if (commit && name && name !== initialName) {
+      onCommit(name);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="file-explorer__node--wrapper">
+      <div
+        className="file-explorer__node file-explorer__node--editing"
+        style={{ paddingLeft }}
+      >
+        <span aria-hidden="true">{icon}</span>
+        <input
+          ref={inputRef}
+          className="file-explorer__name-input"
+          aria-label={label}
+          value={value}
+          spellCheck={false}
+          onChange={(event) => setValue(event.target.value)}
+          onKeyDown={(event) => {
+            event.stopPropagation();
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              settle(true);
+            } else if (event.key === 'Escape') {
+              event.preventDefault();
+              settle(false);
+            }
+          }}
+          onBlur={() => settle(true)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import type { SearchResult } from '../../types/fileTree';
+import { Highlighted } from './Highlighted';
+import { searchTree } from './treeApi';
+import type { TreeScope } from './treeApi';
+
+const SEARCH_DEBOUNCE_MS = 120;
+
+const RESULT_ICONS: Record<SearchResult['type'], string> = {
+  file: '📄',
+  folder: '📁',
+  symlink: '🔗',
+};
+
+/**
+ * Quick-open dialog: searches the whole root on the server, so it also finds entries in
+ * folders that have not been loaded yet. Arrow keys move through the results, Enter
+ * picks one and Escape closes.
+ */
+export function QuickOpen({
+  scope,
+  onSelect,
+  onClose,
+}: {
+  scope: TreeScope;
+  onSelect: (path: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timer = window.setTimeout(async () => {
+      try {
+        const nextResults = await searchTree(
+          scope,
+          trimmed,
+          controller.signal
+        );
+        setResults(nextResults);
+        setActiveIndex(0);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, scope]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    event.stopPropagation();
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(
+        (prev) => (prev + step + results.length) % results.length
+      );
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const result = results[activeIndex];
+      if (result) {
+        onSelect(result.path);
+      }
+    }
+  };
+
+  let status: string | null = null;
+  if (error) {
+    status = `Search failed: ${error}`;
+  } else if (query.trim() && !isSearching && results.length === 0) {
+    status = 'No matching files or folders.';
+  }
+
+  return (
+    <div
+      className="quick-open__backdrop"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="quick-open"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Go to file"
+      >
+        <input
+          ref={inputRef}
+          className="quick-open__input"
+          role="combobox"
+          aria-expanded={results.length > 0}
+          aria-controls="quick-open-results"
+          aria-activedescendant={
+            results.length > 0 ? `quick-open-result-${activeIndex}` : undefined
+          }
+          aria-autocomplete="list"
+          placeholder="Search files by name or path"
+          spellCheck={false}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        {status && (
+          <p className="quick-open__status" role="status">
+            {status}
+          </p>
+        )}
+        <ul
+          ref={listRef}
+          id="quick-open-results"
+          className="quick-open__results"
+          role="listbox"
+          aria-label="Search results"
+        >
+          {results.map((result, index) => (
+            <li
+              key={result.path}
+              id={`quick-open-result-${index}`}
+              data-index={index}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={[
+                'quick-open__result',
+                index === activeIndex ? 'quick-open__result--active' : '',
+                result.ignored ? 'quick-open__result--ignored' : '',
+              ]
+                .filter(Boolean)
+                .join(' ')}
+              onMouseMove={() => setActiveIndex(index)}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                onSelect(result.path);
+              }}
+            >
+              <span className="quick-open__name">
+                <span aria-hidden="true">
+                  {RESULT_ICONS[result.type]}
+                </span>{' '}
+                <Highlighted text={result.name} ranges={result.nameRanges} />
+              </span>
+              <span className="quick-open__path">
+                <Highlighted text={result.path} ranges={result.pathRanges} />
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
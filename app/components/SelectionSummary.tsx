@@ -0,0 +1,112 @@
+'use client';
+
+import type { FolderAggregate, TreeNode } from '../../types/fileTree';
+import {
+  addFileToAggregate,
+  addFolderToAggregate,
+  emptyAggregate,
+} from '../../lib/fileTree/folderAggregate';
+import { formatBytes, formatDateTime } from './format';
+import { parentPathOf } from './treeModel';
+
+/**
+ * Totals for a set of selected nodes, counting each selected folder by its aggregate.
+ * Nodes inside another selected folder are skipped, so nothing is counted twice, and so
+ * are symlinks, like they are in folder aggregates.
+ */
+export function summarizeSelection(nodes: TreeNode[]): FolderAggregate {
+  const selectedPaths = new Set(nodes.map((node) => node.path));
+  const aggregate = emptyAggregate();
+
+  for (const node of nodes) {
+    if (hasSelectedAncestor(node.path, selectedPaths)) {
+      continue;
+    }
+    if (node.type === 'folder') {
+      addFolderToAggregate(aggregate, node.aggregate);
+    } else if (node.type === 'file') {
+      addFileToAggregate(aggregate, node);
+    }
+  }
+
+  return aggregate;
+}
+
+/** Details panel content when more than one row is selected. */
+export function SelectionSummary({ nodes }: { nodes: TreeNode[] }) {
+  const aggregate = summarizeSelection(nodes);
+
+  return (
+    <div>
+      <h2 className="file-explorer__details-title">
+        {nodes.length} items selected
+      </h2>
+      <AggregateDetails aggregate={aggregate} />
+    </div>
+  );
+}
+
+/**
+ * File and folder counts, size, newest change and the per-extension table, for a folder
+ * or a whole selection.
+ */
+export function AggregateDetails({
+  aggregate,
+}: {
+  aggregate: FolderAggregate;
+}) {
+  const extensions = Object.keys(aggregate.extensions)
+    .map((extension) => ({ extension, ...aggregate.extensions[extension] }))
+    .sort((a, b) => b.sizeInBytes - a.sizeInBytes || b.count - a.count);
+
+  return (
+    <>
+      <dl className="file-explorer__details-grid">
+        <dt>Files</dt>
+        <dd>{aggregate.fileCount}</dd>
+        <dt>Folders</dt>
+        <dd>{aggregate.folderCount}</dd>
+        <dt>Total size</dt>
+        <dd>{formatBytes(aggregate.totalBytes)}</dd>
+        {aggregate.newestModifiedAt && (
+          <>
+            <dt>Newest</dt>
+            <dd>{formatDateTime(aggregate.newestModifiedAt)}</dd>
+          </>
+        )}
+      </dl>
+      {extensions.length > 0 && (
+        <table className="selection-summary__extensions">
+          <caption>By extension</caption>
+          <thead>
+            <tr>
+              <th scope="col">Extension</th>
+              <th scope="col">Files</th>
+              <th scope="col">Size</th>
+            </tr>
+          </thead>
+          <tbody>
+            {extensions.map((total) => (
+              <tr key={total.extension}>
+                <td>{total.extension || 'No extension'}</td>
+                <td>{total.count}</td>
+                <td>{formatBytes(total.sizeInBytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
+
+function hasSelectedAncestor(path: string, selectedPaths: Set<string>) {
+  let current = path;
+  while (current.includes('/')) {
+    current = parentPathOf(current);
+    if (selectedPaths.has(current)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { SnapshotSummary } from '../../types/fileTree';
+import { createSnapshot, fetchSnapshots } from './treeApi';
+import type { TreeScope } from './treeApi';
+import { formatDateTime } from './format';
+
+/**
+ * Toolbar control for diff mode: picks the snapshot the tree is compared with, or
+ * none, and takes new snapshots. Snapshots taken here hash file contents, so moves
+ * show up as moves.
+ */
+export function SnapshotControl({
+  scope,
+  value,
+  onChange,
+  onError,
+}: {
+  scope: TreeScope;
+  value: string | null;
+  onChange: (name: string | null) => void;
+  onError: (message: string) => void;
+}) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSnapshots(scope)
+      .then((nextSnapshots) => {
+        if (!cancelled) setSnapshots(nextSnapshots);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          onError(`Could not list snapshots: ${errorMessage(err)}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Snapshots belong to the root; `onError` changes on every render.
+  }, [scope.rootId]);
+
+  const takeSnapshot = async () => {
+    const name = window.prompt('Name the snapshot', defaultSnapshotName());
+    if (!name) return;
+
+    setIsCreating(true);
+    try {
+      const snapshot = await createSnapshot(scope, { name, hash: true });
+      setSnapshots((prev) => [snapshot, ...prev]);
+    } catch (err) {
+      onError(`Could not take a snapshot: ${errorMessage(err)}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div
+      className="file-explorer__snapshots"
+      role="group"
+      aria-label="Compare with a snapshot"
+    >
+      <label className="file-explorer__sort-key">
+        <span>Compare with</span>
+        <select
+          value={value ?? ''}
+          onChange={(event) => onChange(event.target.value || null)}
+        >
+          <option value="">Nothing</option>
+          {snapshots.map((snapshot) => (
+            <option key={snapshot.name} value={snapshot.name}>
+              {snapshot.name} ({formatDateTime(snapshot.createdAt)})
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        className="file-explorer__snapshot-button"
+        disabled={isCreating}
+        onClick={takeSnapshot}
+      >
+        {isCreating ? 'Taking snapshot…' : 'Take snapshot'}
+      </button>
+    </div>
+  );
+}
+
+/** Like `2024-05-01-1430`, which sorts by date and is a valid name. */
+function defaultSnapshotName(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return [
+    now.getFullYear(),
+    pad(now.getMonth() + 1),
+    pad(now.getDate()),
+    `${pad(now.getHours())}${pad(now.getMinutes())}`,
+  ].join('-');
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'unknown error';
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import type { SortKey, SortOrder } from '../../types/fileTree';
+import { isSortKey } from '../../lib/fileTree/sortOrder';
+
+const SORT_KEY_LABELS: Record<SortKey, string> = {
+  name: 'Name',
+  size: 'Size',
+  modified: 'Modified',
+  extension: 'Type',
+};
+
+/** Toolbar control for the sort key, direction and whether folders stay on top. */
+export function SortControl({
+  value,
+  onChange,
+}: {
+  value: SortOrder;
+  onChange: (order: SortOrder) => void;
+}) {
+  const isAscending = value.direction === 'asc';
+
+  return (
+    <div className="file-explorer__sort" role="group" aria-label="Sort order">
+      <label className="file-explorer__sort-key">
+        <span>Sort by</span>
+        <select
+          value={value.key}
+          onChange={(event) => {
+            const key = event.target.value;
+            if (isSortKey(key)) {
+              onChange({ ...value, key });
+            }
+          }}
+        >
+          {Object.entries(SORT_KEY_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        className="file-explorer__sort-direction"
+        aria-label={isAscending ? 'Ascending' : 'Descending'}
+        title={isAscending ? 'Ascending' : 'Descending'}
+        onClick={() =>
+          onChange({ ...value, direction: isAscending ? 'desc' : 'asc' })
+        }
+      >
+        {isAscending ? '↑' : '↓'}
+      </button>
+      <label className="file-explorer__toggle">
+        <input
+          type="checkbox"
+          checked={value.foldersFirst}
+          onChange={(event) =>
+            onChange({ ...value, foldersFirst: event.target.checked })
+          }
+        />
+        <span>Folders first</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import type { FolderNode, TreeNode } from '../../types/fileTree';
+import {
+  findNodeByPath,
+  isSameOrAncestorPath,
+  parentPathOf,
+} from './treeModel';
+
+const SIBLING_ICONS: Record<TreeNode['type'], string> = {
+  file: '📄',
+  folder: '📁',
+  symlink: '🔗',
+};
+
+type Crumb = {
+  path: string;
+  name: string;
+  /** Loaded entries of the folder holding this one, itself included. */
+  siblings: TreeNode[];
+};
+
+/**
+ * The folders leading to `path`, above the tree, so the way to a deeply indented row
+ * stays readable. Each segment selects its entry, and the arrow next to it lists the
+ * entries beside it to jump across. Segments above the focused folder are dimmed; the
+ * bar also holds the buttons that move the focus up or drop it.
+ *
+ * Everything is a button in the tab order, and the sibling menus take arrow keys and
+ * Escape like the context menu.
+ */
+export function TreeBreadcrumbs({
+  tree,
+  path,
+  hoistedPath,
+  onSelect,
+  onHoist,
+}: {
+  tree: FolderNode;
+  path: string;
+  /** The folder the tree is focused on, or null when it shows the whole root. */
+  hoistedPath: string | null;
+  onSelect: (path: string) => void;
+  onHoist: (path: string | null) => void;
+}) {
+  const [openMenuPath, setOpenMenuPath] = useState<string | null>(null);
+
+  const segments = path.split('/');
+  const crumbs: Crumb[] = segments.map((segment, index) => {
+    const crumbPath = segments.slice(0, index + 1).join('/');
+    const parent =
+      index === 0
+        ? null
+        : findNodeByPath(tree, segments.slice(0, index).join('/'));
+    return {
+      path: crumbPath,
+      name: index === 0 ? tree.name : segment,
+      siblings: parent?.type === 'folder' ? parent.children : [],
+    };
+  });
+
+  return (
+    <nav className="tree-breadcrumbs" aria-label="Location in the tree">
+      <ol className="tree-breadcrumbs__list">
+        {crumbs.map((crumb, index) => {
+          const isCurrent = index === crumbs.length - 1;
+          const isOutsideFocus =
+            hoistedPath !== null &&
+            !isSameOrAncestorPath(hoistedPath, crumb.path);
+
+          return (
+            <li key={crumb.path} className="tree-breadcrumbs__item">
+              {index > 0 && (
+                <span
+                  className="tree-breadcrumbs__separator"
+                  aria-hidden="true"
+                >
+                  /
+                </span>
+              )}
+              <button
+                type="button"
+                className={[
+                  'tree-breadcrumbs__crumb',
+                  isOutsideFocus ? 'tree-breadcrumbs__crumb--outside' : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+                aria-current={isCurrent ? 'location' : undefined}
+                onClick={() => onSelect(crumb.path)}
+              >
+                {crumb.name}
+              </button>
+              {crumb.siblings.length > 1 && (
+                <SiblingMenu
+                  crumb={crumb}
+                  isOpen={openMenuPath === crumb.path}
+                  onOpenChange={(isOpen) =>
+                    setOpenMenuPath(isOpen ? crumb.path : null)
+                  }
+                  onSelect={(siblingPath) => {
+                    setOpenMenuPath(null);
+                    onSelect(siblingPath);
+                  }}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {hoistedPath && (
+        <div className="tree-breadcrumbs__actions">
+          <button
+            type="button"
+            className="tree-breadcrumbs__action"
+            title="Focus on the folder above (Alt+←)"
+            onClick={() => {
+              const parentPath = parentPathOf(hoistedPath);
+              onHoist(parentPath === hoistedPath ? null : parentPath);
+            }}
+          >
+            ↑ Up
+          </button>
+          <button
+            type="button"
+            className="tree-breadcrumbs__action"
+            onClick={() => onHoist(null)}
+          >
+            Show all files
+          </button>
+        </div>
+      )}
+    </nav>
+  );
+}
+
+function SiblingMenu({
+  crumb,
+  isOpen,
+  onOpenChange,
+  onSelect,
+}: {
+  crumb: Crumb;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onSelect: (path: string) => void;
+}) {
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Opens on the entry the crumb stands for, so arrowing moves to its neighbours.
+    const items = menuItems(menuRef.current);
+    const current = items.find(
+      (item) => item.getAttribute('aria-checked') === 'true'
+    );
+    (current ?? items[0])?.focus();
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (
+        !menuRef.current?.contains(target) &&
+        !toggleRef.current?.contains(target)
+      ) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    if (event.key === 'Escape' || event.key === 'Tab') {
+      event.preventDefault();
+      onOpenChange(false);
+      toggleRef.current?.focus();
+      return;
+    }
+
+    const items = menuItems(menuRef.current);
+    const currentIndex = items.indexOf(
+      document.activeElement as HTMLButtonElement
+    );
+    let nextIndex: number;
+    if (event.key === 'ArrowDown') {
+      nextIndex = (currentIndex + 1) % items.length;
+    } else if (event.key === 'ArrowUp') {
+      nextIndex = (currentIndex - 1 + items.length) % items.length;
+    } else if (event.key === 'Home') {
+      nextIndex = 0;
+    } else if (event.key === 'End') {
+      nextIndex = items.length - 1;
+    } else {
+      return;
+    }
+    event.preventDefault();
+    items[nextIndex]?.focus();
+  };
+
+  return (
+    <>
+      <button
+        ref={toggleRef}
+        type="button"
+        className="tree-breadcrumbs__toggle"
+        aria-label={`Entries next to ${crumb.name}`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        onClick={() => onOpenChange(!isOpen)}
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowDown') {
+            event.preventDefault();
+            onOpenChange(true);
+          }
+        }}
+      >
+        ▾
+      </button>
+      {isOpen && (
+        <ul
+          ref={menuRef}
+          className="tree-breadcrumbs__menu"
+          role="menu"
+          aria-label={`Entries next to ${crumb.name}`}
+          onKeyDown={handleKeyDown}
+        >
+          {crumb.siblings.map((sibling) => (
+            <li key={sibling.path} role="none">
+              <button
+                type="button"
+                role="menuitemradio"
+                aria-checked={sibling.path === crumb.path}
+                className="tree-breadcrumbs__menu-item"
+                tabIndex={-1}
+                onClick={() => onSelect(sibling.path)}
+              >
+                {SIBLING_ICONS[sibling.type]} {sibling.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+function menuItems(menu: HTMLUListElement | null): HTMLButtonElement[] {
+  return Array.from(
+    menu?.querySelectorAll<HTMLButtonElement>('[role="menuitemradio"]') ?? []
+  );
+}
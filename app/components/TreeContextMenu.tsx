@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export type ContextMenuAction =
+  | 'new-file'
+  | 'new-folder'
+  | 'focus'
+  | 'rename'
+  | 'delete';
+
+type MenuItem = {
+  action: ContextMenuAction;
+  label: string;
+  shortcut: string;
+  requiresModifiable?: boolean;
+  requiresFocusable?: boolean;
+};
+
+const MENU_ITEMS: MenuItem[] = [
+  { action: 'new-file', label: 'New file', shortcut: 'Ctrl+N' },
+  { action: 'new-folder', label: 'New folder', shortcut: 'Ctrl+Shift+N' },
+  {
+    action: 'focus',
+    label: 'Focus on folder',
+    shortcut: 'Alt+→',
+    requiresFocusable: true,
+  },
+  {
+    action: 'rename',
+    label: 'Rename',
+    shortcut: 'F2',
+    requiresModifiable: true,
+  },
+  {
+    action: 'delete',
+    label: 'Delete',
+    shortcut: 'Del',
+    requiresModifiable: true,
+  },
+];
+
+/**
+ * Floating menu for tree rows. It focuses its first item when opened, supports arrow
+ * keys, and closes on Escape, on a click outside or when the page scrolls.
+ */
+export function TreeContextMenu({
+  x,
+  y,
+  canModify,
+  canFocus,
+  onAction,
+  onClose,
+}: {
+  x: number;
+  y: number;
+  /** False for the root folder, which cannot be renamed or deleted. */
+  canModify: boolean;
+  /** True for a folder other than the one the tree is already focused on. */
+  canFocus: boolean;
+  onAction: (action: ContextMenuAction) => void;
+  onClose: () => void;
+}) {
+  const menuRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    menuRef.current
+      ?.querySelector<HTMLButtonElement>('button:not(:disabled)')
+      ?.focus();
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    window.addEventListener('scroll', onClose, true);
+    window.addEventListener('resize', onClose);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      window.removeEventListener('scroll', onClose, true);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    event.stopPropagation();
+
+    if (event.key === 'Escape' || event.key === 'Tab') {
+      event.preventDefault();
+      onClose();
+      return;
+    }
+
+    if (event.key !== 'ArrowDown' && event.key !== 'ArrowUp') return;
+
+    event.preventDefault();
+    const buttons = Array.from(
+      menuRef.current?.querySelectorAll<HTMLButtonElement>(
+        'button:not(:disabled)'
+      ) ?? []
+    );
+    const currentIndex = buttons.indexOf(
+      document.activeElement as HTMLButtonElement
+    );
+    const step = event.key === 'ArrowDown' ? 1 : -1;
+    const nextIndex = (currentIndex + step + buttons.length) % buttons.length;
+    buttons[nextIndex]?.focus();
+  };
+
+  return (
+    <ul
+      ref={menuRef}
+      className="tree-context-menu"
+      role="menu"
+      aria-label="File actions"
+      style={{ left: x, top: y }}
+      onKeyDown={handleKeyDown}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {MENU_ITEMS.map((item) => (
+        <li key={item.action} role="none">
+          <button
+            type="button"
+            role="menuitem"
+            className="tree-context-menu__item"
+            disabled={
+              (item.requiresModifiable && !canModify) ||
+              (item.requiresFocusable && !canFocus)
+            }
+            onClick={() => onAction(item.action)}
+          >
+            <span>{item.label}</span>
+            <kbd>{item.shortcut}</kbd>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,98 @@
+import type { SortOrder } from '../../types/fileTree';
+import {
+  DEFAULT_SORT_ORDER,
+  isSortDirection,
+  isSortKey,
+} from '../../lib/fileTree/sortOrder';
+
+const STORAGE_KEY_PREFIX = 'file-explorer:root:';
+
+/** What the explorer remembers about each root between visits. */
+export type StoredRootState = {
+  expanded: string[];
+  sortOrder: SortOrder;
+  showHidden: boolean;
+  changedOnly: boolean;
+};
+
+/** Where the URL points: `?root=docs&path=root/src/index.ts`. Either may be absent. */
+export type ExplorerLocation = {
+  rootId: string | null;
+  path: string | null;
+};
+
+/** The state saved by `storeRootState`, with defaults for anything missing or invalid. */
+export function readRootState(rootId: string): StoredRootState {
+  let stored: Partial<Record<keyof StoredRootState, unknown>> = {};
+  try {
+    stored =
+      JSON.parse(
+        window.localStorage.getItem(STORAGE_KEY_PREFIX + rootId) ?? 'null'
+      ) ?? {};
+  } catch {
+    // Unparsable or blocked storage falls back to the defaults.
+  }
+
+  const { expanded, sortOrder, showHidden, changedOnly } = stored;
+  return {
+    expanded:
+      Array.isArray(expanded) &&
+      expanded.every((path) => typeof path === 'string')
+        ? expanded
+        : ['root'],
+    sortOrder: isSortOrder(sortOrder) ? sortOrder : DEFAULT_SORT_ORDER,
+    showHidden: showHidden === true,
+    changedOnly: changedOnly === true,
+  };
+}
+
+export function storeRootState(rootId: string, state: StoredRootState) {
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY_PREFIX + rootId,
+      JSON.stringify(state)
+    );
+  } catch {
+    // Storage can be full or disabled; the state then lasts for this session only.
+  }
+}
+
+export function readLocation(): ExplorerLocation {
+  const params = new URLSearchParams(window.location.search);
+  return { rootId: params.get('root'), path: params.get('path') };
+}
+
+/**
+ * The URL for a location, keeping the rest of the current one. The root is left out
+ * when it is the default, so links into a single-root setup stay short.
+ */
+export function locationUrl(
+  { rootId, path }: ExplorerLocation,
+  defaultRootId: string | null
+): string {
+  const params = new URLSearchParams(window.location.search);
+  params.delete('root');
+  params.delete('path');
+  if (rootId && rootId !== defaultRootId) {
+    params.set('root', rootId);
+  }
+  if (path) {
+    params.set('path', path);
+  }
+
+  const search = params.toString();
+  return `${window.location.pathname}${search ? `?${search}` : ''}${
+    window.location.hash
+  }`;
+}
+
+function isSortOrder(value: unknown): value is SortOrder {
+  const order = value as Partial<SortOrder> | null;
+  return (
+    typeof order?.key === 'string' &&
+    isSortKey(order.key) &&
+    typeof order.direction === 'string' &&
+    isSortDirection(order.direction) &&
+    typeof order.foldersFirst === 'boolean'
+  );
+}
@@ -0,0 +1,320 @@
+import type {
+  ChangeEvent,
+  CreateEntryRequest,
+  CreateSnapshotRequest,
+  ExportColumn,
+  ExportFormat,
+  FolderNode,
+  GrepEvent,
+  HistoryResponse,
+  MoveEntriesRequest,
+  MoveEntriesResponse,
+  MutationResponse,
+  SearchResponse,
+  SearchResult,
+  SnapshotChange,
+  SnapshotComparison,
+  SnapshotListResponse,
+  SnapshotSummary,
+  SortOrder,
+  TreePatch,
+  UpdateEntryRequest,
+} from '../../types/fileTree';
+
+/** Client wrappers for the /api/file-tree endpoints. */
+
+const PAGE_SIZE = 200;
+
+/** Which root a request goes to and how that root is listed. */
+export type TreeScope = {
+  rootId: string;
+  showHidden: boolean;
+};
+
+export function scopeParams(
+  scope: TreeScope,
+  params: Record<string, string> = {}
+): URLSearchParams {
+  const searchParams = new URLSearchParams({ root: scope.rootId, ...params });
+  if (scope.showHidden) {
+    searchParams.set('showHidden', '1');
+  }
+  return searchParams;
+}
+
+/**
+ * Fetches a page of a folder. The order is not part of the scope: changing it re-sorts
+ * what is loaded instead of starting over, so only further pages need to ask for it.
+ */
+export async function fetchFolder(
+  scope: TreeScope,
+  folderPath: string,
+  cursor: string | null,
+  order: SortOrder
+): Promise<FolderNode> {
+  const params = scopeParams(scope, {
+    path: folderPath,
+    limit: String(PAGE_SIZE),
+    sort: order.key,
+    order: order.direction,
+    foldersFirst: order.foldersFirst ? '1' : '0',
+  });
+  if (cursor !== null) {
+    params.set('cursor', cursor);
+  }
+
+  const response = await fetch(`/api/file-tree?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export type ExportOptions = {
+  format: ExportFormat;
+  /** Levels below the folder to include, or null for all of them. */
+  depth: number | null;
+  /** Null leaves the choice to the format's default. */
+  columns: ExportColumn[] | null;
+  order: SortOrder;
+};
+
+/** The /api/file-tree/export URL for a folder, as a download or to fetch as text. */
+export function exportUrl(
+  scope: TreeScope,
+  folderPath: string,
+  { format, depth, columns, order }: ExportOptions,
+  download: boolean
+): string {
+  const params = scopeParams(scope, {
+    path: folderPath,
+    format,
+    sort: order.key,
+    order: order.direction,
+    foldersFirst: order.foldersFirst ? '1' : '0',
+  });
+  if (depth !== null) {
+    params.set('depth', String(depth));
+  }
+  if (columns !== null) {
+    params.set('columns', columns.join(','));
+  }
+  if (download) {
+    params.set('download', '1');
+  }
+  return `/api/file-tree/export?${params.toString()}`;
+}
+
+export async function fetchExport(
+  scope: TreeScope,
+  folderPath: string,
+  options: ExportOptions
+): Promise<string> {
+  const response = await fetch(exportUrl(scope, folderPath, options, false));
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+  return response.text();
+}
+
+export async function searchTree(
+  scope: TreeScope,
+  query: string,
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  const params = scopeParams(scope, { q: query });
+  const response = await fetch(`/api/file-tree/search?${params.toString()}`, {
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: SearchResponse = await response.json();
+  return payload.results;
+}
+
+/** The watcher's recent changes, newest first, optionally only under `path`. */
+export async function fetchHistory(
+  scope: TreeScope,
+  path: string | null,
+  signal?: AbortSignal
+): Promise<ChangeEvent[]> {
+  const params = scopeParams(scope, path ? { path } : {});
+  const response = await fetch(`/api/file-tree/history?${params.toString()}`, {
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: HistoryResponse = await response.json();
+  return payload.events;
+}
+
+export type GrepRequest = {
+  query: string;
+  /** The folder to search, or null for the whole root. */
+  path: string | null;
+  regex: boolean;
+  caseSensitive: boolean;
+  include: string;
+  exclude: string;
+};
+
+/**
+ * Runs a content search and hands each event to `onEvent` as it arrives. Resolves
+ * when the stream ends; abort `signal` to stop the search on the server too.
+ */
+export async function streamGrep(
+  scope: TreeScope,
+  request: GrepRequest,
+  onEvent: (event: GrepEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const params = scopeParams(scope, { q: request.query });
+  if (request.path) params.set('path', request.path);
+  if (request.regex) params.set('regex', '1');
+  if (request.caseSensitive) params.set('caseSensitive', '1');
+  if (request.include.trim()) params.set('include', request.include);
+  if (request.exclude.trim()) params.set('exclude', request.exclude);
+
+  const response = await fetch(`/api/file-tree/grep?${params.toString()}`, {
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.filter(Boolean).forEach((line) => onEvent(JSON.parse(line)));
+
+    if (done) return;
+  }
+}
+
+export async function fetchSnapshots(
+  scope: TreeScope
+): Promise<SnapshotSummary[]> {
+  const params = scopeParams(scope);
+  const response = await fetch(`/api/file-tree/snapshots?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: SnapshotListResponse = await response.json();
+  return payload.snapshots;
+}
+
+export async function createSnapshot(
+  scope: TreeScope,
+  body: CreateSnapshotRequest
+): Promise<SnapshotSummary> {
+  const params = scopeParams(scope);
+  const response = await fetch(`/api/file-tree/snapshots?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+  return response.json();
+}
+
+/** What changed from a snapshot to the tree as it is now. */
+export async function compareWithSnapshot(
+  scope: TreeScope,
+  name: string,
+  signal?: AbortSignal
+): Promise<SnapshotChange[]> {
+  const params = scopeParams(scope, { from: name });
+  const response = await fetch(
+    `/api/file-tree/snapshots/compare?${params.toString()}`,
+    { signal }
+  );
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: SnapshotComparison = await response.json();
+  return payload.changes;
+}
+
+export function createEntry(
+  scope: TreeScope,
+  body: CreateEntryRequest
+): Promise<TreePatch> {
+  return mutate(scope, 'POST', body);
+}
+
+export function updateEntry(
+  scope: TreeScope,
+  body: UpdateEntryRequest
+): Promise<TreePatch> {
+  return mutate(scope, 'PATCH', body);
+}
+
+export function deleteEntry(scope: TreeScope, path: string): Promise<TreePatch> {
+  return mutate(scope, 'DELETE', null, { path });
+}
+
+export async function moveEntries(
+  scope: TreeScope,
+  body: MoveEntriesRequest
+): Promise<TreePatch[]> {
+  const params = scopeParams(scope);
+  const response = await fetch(`/api/file-tree/move?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: MoveEntriesResponse = await response.json();
+  return payload.patches;
+}
+
+async function mutate(
+  scope: TreeScope,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body: object | null,
+  query: Record<string, string> = {}
+): Promise<TreePatch> {
+  const params = scopeParams(scope, query);
+  const response = await fetch(`/api/file-tree?${params.toString()}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const payload: MutationResponse = await response.json();
+  return payload.patch;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const payload: { message?: string } = await response.json();
+    if (payload.message) {
+      return payload.message;
+    }
+  } catch {
+    // Fall through to the generic message.
+  }
+  return `Request failed with status ${response.status}`;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FileNode, FolderNode, TreePatch } from '../../types/fileTree';
+import { DEFAULT_SORT_ORDER } from '../../lib/fileTree/sortOrder';
+import { applyTreePatches, withoutEchoes } from './treeModel';
+import type { PatchSource, PendingEchoes } from './treeModel';
+
+function file(path: string): FileNode {
+  return {
+    type: 'file',
+    name: path.slice(path.lastIndexOf('/') + 1),
+    path,
+    extension: 'txt',
+    sizeInBytes: 10,
+    modifiedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+/** A root with the first two of its five files loaded. */
+function partlyLoadedRoot(): FolderNode {
+  return {
+    type: 'folder',
+    name: 'demo',
+    path: 'root',
+    children: [file('root/a.txt'), file('root/b.txt')],
+    childCount: 5,
+    hasChildren: true,
+    nextCursor: '2',
+    aggregate: {
+      fileCount: 5,
+      folderCount: 0,
+      totalBytes: 50,
+      newestModifiedAt: null,
+      extensions: {},
+    },
+  };
+}
+
+describe('withoutEchoes', () => {
+  const apply = (
+    root: FolderNode,
+    pending: PendingEchoes,
+    patches: TreePatch[],
+    source: PatchSource,
+    expectEchoes: boolean,
+    now = 0
+  ) =>
+    applyTreePatches(
+      root,
+      withoutEchoes(pending, patches, source, expectEchoes, now),
+      DEFAULT_SORT_ORDER
+    );
+
+  it('counts an entry added past the loaded children once', () => {
+    const pending: PendingEchoes = new Map();
+    const added: TreePatch = {
+      op: 'added',
+      path: 'root/z.txt',
+      node: file('root/z.txt'),
+    };
+
+    let root = apply(partlyLoadedRoot(), pending, [added], 'response', true);
+    root = apply(root, pending, [added], 'watcher', false);
+
+    expect(root.childCount).toBe(6);
+    expect(root.nextCursor).toBe('2');
+    expect(pending.size).toBe(0);
+  });
+
+  it('counts a removal once when the watcher reports it first', () => {
+    const pending: PendingEchoes = new Map();
+    const removed: TreePatch = { op: 'removed', path: 'root/d.txt' };
+
+    let root = apply(partlyLoadedRoot(), pending, [removed], 'watcher', true);
+    root = apply(root, pending, [removed], 'response', true);
+
+    expect(root.childCount).toBe(4);
+    expect(pending.size).toBe(0);
+  });
+
+  it('applies changes that are not echoes, and forgets echoes that never came', () => {
+    const pending: PendingEchoes = new Map();
+    const removed: TreePatch = { op: 'removed', path: 'root/d.txt' };
+    const other: TreePatch = { op: 'removed', path: 'root/e.txt' };
+
+    let root = apply(partlyLoadedRoot(), pending, [removed], 'response', true);
+    root = apply(root, pending, [other], 'watcher', false);
+    expect(root.childCount).toBe(3);
+
+    root = apply(root, pending, [removed], 'watcher', false, 60000);
+    expect(root.childCount).toBe(2);
+  });
+});
@@ -0,0 +1,333 @@
+import type {
+  FolderNode,
+  SortOrder,
+  TreeNode,
+  TreePatch,
+} from '../../types/fileTree';
+import { compareBySortOrder } from '../../lib/fileTree/sortOrder';
+
+/**
+ * Pure helpers for reading and updating the client-side copy of the tree.
+ *
+ * Every update returns a new root but shares untouched subtrees with the previous one,
+ * so a patch only costs the path from the root down to the changed folder.
+ */
+
+export function findNodeByPath(
+  root: FolderNode | null,
+  path: string | null
+): TreeNode | null {
+  if (!root || !path) {
+    return null;
+  }
+
+  if (root.path === path) {
+    return root;
+  }
+
+  const stack: TreeNode[] = root ? [...root.children] : [];
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (!current) {
+      continue;
+    }
+    if (current.path === path) {
+      return current;
+    }
+    if (current.type === 'folder') {
+      stack.push(...current.children);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns a copy of `root` with the folder at `folderPath` replaced by `update(folder)`.
+ * If that folder has not been loaded on the client, `root` is returned unchanged.
+ */
+export function updateFolder(
+  root: FolderNode,
+  folderPath: string,
+  update: (folder: FolderNode) => FolderNode
+): FolderNode {
+  if (root.path === folderPath) {
+    return update(root);
+  }
+
+  const index = root.children.findIndex(
+    (child) =>
+      child.type === 'folder' && isSameOrAncestorPath(child.path, folderPath)
+  );
+  if (index === -1) {
+    return root;
+  }
+
+  const child = root.children[index] as FolderNode;
+  const updatedChild = updateFolder(child, folderPath, update);
+  if (updatedChild === child) {
+    return root;
+  }
+
+  const children = [...root.children];
+  children[index] = updatedChild;
+  return { ...root, children };
+}
+
+export function isSameOrAncestorPath(ancestor: string, path: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+export function parentPathOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? path : path.slice(0, index);
+}
+
+/**
+ * Re-sorts everything loaded under `root` into `order`. Folders whose children are only
+ * partly loaded cannot be re-sorted locally, since entries from later pages may belong in
+ * between, so they are reset to unloaded and fetched again in the new order.
+ */
+export function sortTree(root: FolderNode, order: SortOrder): FolderNode {
+  if (root.nextCursor !== null) {
+    return root.children.length === 0
+      ? root
+      : { ...root, children: [], nextCursor: '0' };
+  }
+
+  const children = root.children
+    .map((child) => (child.type === 'folder' ? sortTree(child, order) : child))
+    .sort((a, b) => compareBySortOrder(a, b, order));
+  return { ...root, children };
+}
+
+export function applyTreePatches(
+  root: FolderNode,
+  patches: TreePatch[],
+  order: SortOrder
+): FolderNode {
+  return patches.reduce(
+    (current, patch) => applyTreePatch(current, patch, order),
+    root
+  );
+}
+
+/** Where a batch of patches came from: our own API response, or the file watcher. */
+export type PatchSource = 'response' | 'watcher';
+
+/**
+ * Additions and removals already applied from one source that the other is expected to
+ * report too, keyed by `op:path`. A partly loaded folder cannot tell whether an entry
+ * beyond its loaded children was already counted, so applying the same patch twice would
+ * throw its `childCount`, and with it the "Load more" count and the page cursor, off.
+ */
+export type PendingEchoes = Map<string, { source: PatchSource; seenAt: number }>;
+
+/** Echoes arrive within a debounce and a rescan; older entries are never coming. */
+const ECHO_TIMEOUT_MS = 30000;
+
+/**
+ * Drops the additions and removals in `patches` that the other source already applied.
+ * The rest are passed through, and recorded to drop their echo when `expectEchoes` is
+ * set: always for our own responses, and for the watcher while a change of ours is still
+ * waiting for its response.
+ */
+export function withoutEchoes(
+  pending: PendingEchoes,
+  patches: TreePatch[],
+  source: PatchSource,
+  expectEchoes: boolean,
+  now = Date.now()
+): TreePatch[] {
+  pending.forEach((entry, key) => {
+    if (now - entry.seenAt > ECHO_TIMEOUT_MS) {
+      pending.delete(key);
+    }
+  });
+
+  return patches.filter((patch) => {
+    if (patch.op !== 'added' && patch.op !== 'removed') {
+      return true;
+    }
+
+    const key = `${patch.op}:${patch.path}`;
+    const entry = pending.get(key);
+    if (entry && entry.source !== source) {
+      pending.delete(key);
+      return false;
+    }
+    if (expectEchoes) {
+      pending.set(key, { source, seenAt: now });
+    }
+    return true;
+  });
+}
+
+function applyTreePatch(
+  root: FolderNode,
+  patch: TreePatch,
+  order: SortOrder
+): FolderNode {
+  switch (patch.op) {
+    case 'added':
+      return insertNode(root, patch.node, order);
+    case 'removed':
+      return removeNode(root, patch.path);
+    case 'renamed': {
+      // A client that made the change itself sees the patch twice: once from the API
+      // response and once from the watcher.
+      const existing = findNodeByPath(root, patch.from);
+      if (!existing && findNodeByPath(root, patch.path)) {
+        return root;
+      }
+
+      // Keep whatever the client already loaded under a renamed folder, so it stays
+      // expanded and populated at its new location.
+      const moved =
+        existing && existing.type === patch.node.type
+          ? rebaseNode(
+              { ...existing, name: patch.node.name },
+              patch.from,
+              patch.path
+            )
+          : patch.node;
+      return insertNode(removeNode(root, patch.from), moved, order);
+    }
+    case 'metadata-changed':
+      if (patch.path === root.path) {
+        return withMetadataOf(root, patch.node) as FolderNode;
+      }
+      return updateFolder(root, parentPathOf(patch.path), (folder) => {
+        const children = folder.children.map((child) =>
+          child.path === patch.path ? withMetadataOf(child, patch.node) : child
+        );
+        // A new size or date can move an entry, but only a complete folder can be
+        // re-sorted here; a partial one is put in order when it is next fetched.
+        if (folder.nextCursor === null) {
+          children.sort((a, b) => compareBySortOrder(a, b, order));
+        }
+        return { ...folder, children };
+      });
+  }
+}
+
+function insertNode(
+  root: FolderNode,
+  node: TreeNode,
+  order: SortOrder
+): FolderNode {
+  return updateFolder(root, parentPathOf(node.path), (folder) => {
+    const existingIndex = folder.children.findIndex(
+      (child) => child.path === node.path
+    );
+    if (existingIndex !== -1) {
+      const children = [...folder.children];
+      children[existingIndex] = node;
+      return { ...folder, children };
+    }
+
+    // Only splice the node in when it falls inside the loaded range; otherwise it will
+    // arrive with a later page and just bumps the count.
+    const lastLoaded = folder.children[folder.children.length - 1];
+    const fitsLoadedRange =
+      folder.nextCursor === null ||
+      (lastLoaded !== undefined &&
+        compareBySortOrder(node, lastLoaded, order) < 0);
+
+    const children = fitsLoadedRange
+      ? [...folder.children, node].sort((a, b) =>
+          compareBySortOrder(a, b, order)
+        )
+      : folder.children;
+
+    return withChildren(folder, children, folder.childCount + 1);
+  });
+}
+
+function removeNode(root: FolderNode, path: string): FolderNode {
+  return updateFolder(root, parentPathOf(path), (folder) => {
+    const children = folder.children.filter((child) => child.path !== path);
+
+    // In a fully loaded folder a missing child means it is already gone.
+    const alreadyRemoved =
+      folder.nextCursor === null &&
+      children.length === folder.children.length;
+    if (alreadyRemoved) {
+      return folder;
+    }
+
+    return withChildren(folder, children, Math.max(0, folder.childCount - 1));
+  });
+}
+
+/** Takes everything from `next` except the children the client has loaded. */
+function withMetadataOf(current: TreeNode, next: TreeNode): TreeNode {
+  if (current.type !== 'folder' || next.type !== 'folder') {
+    return next;
+  }
+
+  return {
+    ...next,
+    children: current.children,
+    childCount: current.childCount,
+    hasChildren: current.hasChildren,
+    nextCursor: current.nextCursor,
+  };
+}
+
+function withChildren(
+  folder: FolderNode,
+  children: TreeNode[],
+  childCount: number
+): FolderNode {
+  return {
+    ...folder,
+    children,
+    childCount,
+    hasChildren: childCount > 0,
+    nextCursor: children.length < childCount ? String(children.length) : null,
+  };
+}
+
+function rebaseNode(node: TreeNode, from: string, to: string): TreeNode {
+  const path = rebasePath(node.path, from, to);
+
+  if (node.type !== 'folder') {
+    return { ...node, path };
+  }
+
+  return {
+    ...node,
+    path,
+    children: node.children.map((child) => rebaseNode(child, from, to)),
+  };
+}
+
+function rebasePath(path: string, from: string, to: string): string {
+  return `${to}${path.slice(from.length)}`;
+}
+
+/**
+ * Follows `path` through renames in `patches`. Returns null if the node, or one of its
+ * ancestors, was removed.
+ */
+export function rebasePathThroughPatches(
+  path: string,
+  patches: TreePatch[]
+): string | null {
+  let current = path;
+
+  for (const patch of patches) {
+    if (patch.op === 'renamed' && isSameOrAncestorPath(patch.from, current)) {
+      current = rebasePath(current, patch.from, patch.path);
+    } else if (
+      patch.op === 'removed' &&
+      isSameOrAncestorPath(patch.path, current)
+    ) {
+      return null;
+    }
+  }
+
+  return current;
+}
@@ -0,0 +1,123 @@
+export type TreemapItem<T> = {
+  value: number;
+  data: T;
+};
+
+export type TreemapTile<T> = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: T;
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Squarified treemap layout (Bruls, Huizing and van Wijk). Items are placed largest
+ * first in rows along the shorter side of the space that is left, and a row is closed
+ * as soon as adding the next item would make its worst aspect ratio worse. Items with
+ * no value get no tile.
+ */
+export function squarify<T>(
+  items: TreemapItem<T>[],
+  width: number,
+  height: number
+): TreemapTile<T>[] {
+  const sorted = items
+    .filter((item) => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, item) => sum + item.value, 0);
+  if (total === 0 || width <= 0 || height <= 0) {
+    return [];
+  }
+
+  const scale = (width * height) / total;
+  const areas = sorted.map((item) => item.value * scale);
+  const tiles: TreemapTile<T>[] = [];
+  let rect: Rect = { x: 0, y: 0, width, height };
+  let rowStart = 0;
+
+  for (let index = 0; index < areas.length; index++) {
+    const side = Math.min(rect.width, rect.height);
+    const row = areas.slice(rowStart, index);
+    if (
+      row.length > 0 &&
+      worstRatio([...row, areas[index]], side) > worstRatio(row, side)
+    ) {
+      rect = layoutRow(sorted, areas, rowStart, index, rect, tiles);
+      rowStart = index;
+    }
+  }
+  layoutRow(sorted, areas, rowStart, areas.length, rect, tiles);
+
+  return tiles;
+}
+
+/** The largest aspect ratio in a row of `areas` laid along a side of length `side`. */
+function worstRatio(areas: number[], side: number): number {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const largest = Math.max(...areas);
+  const smallest = Math.min(...areas);
+  const sideSquared = side * side;
+  return Math.max(
+    (sideSquared * largest) / (sum * sum),
+    (sum * sum) / (sideSquared * smallest)
+  );
+}
+
+/** Places items `[start, end)` as one row and returns the space left after it. */
+function layoutRow<T>(
+  items: TreemapItem<T>[],
+  areas: number[],
+  start: number,
+  end: number,
+  rect: Rect,
+  tiles: TreemapTile<T>[]
+): Rect {
+  const sum = areas.slice(start, end).reduce((total, area) => total + area, 0);
+
+  if (rect.width >= rect.height) {
+    // A column along the left edge.
+    const columnWidth = sum / rect.height;
+    let y = rect.y;
+    for (let index = start; index < end; index++) {
+      const tileHeight = areas[index] / columnWidth;
+      tiles.push({
+        x: rect.x,
+        y,
+        width: columnWidth,
+        height: tileHeight,
+        data: items[index].data,
+      });
+      y += tileHeight;
+    }
+    return {
+      x: rect.x + columnWidth,
+      y: rect.y,
+      width: rect.width - columnWidth,
+      height: rect.height,
+    };
+  }
+
+  // A row along the top edge.
+  const rowHeight = sum / rect.width;
+  let x = rect.x;
+  for (let index = start; index < end; index++) {
+    const tileWidth = areas[index] / rowHeight;
+    tiles.push({
+      x,
+      y: rect.y,
+      width: tileWidth,
+      height: rowHeight,
+      data: items[index].data,
+    });
+    x += tileWidth;
+  }
+  return {
+    x: rect.x,
+    y: rect.y + rowHeight,
+    width: rect.width,
+    height: rect.height - rowHeight,
+  };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { RefObject } from 'react';
+
+export type ElementSize = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Tracks the content size of an element, e.g. to size a virtualized list or lay out a
+ * treemap to it.
+ */
+export function useElementSize(ref: RefObject<HTMLElement>): ElementSize {
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    // Keeps the previous object when nothing changed, so callers do not re-render.
+    const update = (width: number, height: number) =>
+      setSize((prev) =>
+        prev.width === width && prev.height === height
+          ? prev
+          : { width, height }
+      );
+
+    update(element.clientWidth, element.clientHeight);
+    const observer = new ResizeObserver(([entry]) => {
+      update(entry.contentRect.width, entry.contentRect.height);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DragEvent } from 'react';
+
+import type { FolderNode, TreeNode } from '../../types/fileTree';
+import { isSameOrAncestorPath, parentPathOf } from './treeModel';
+
+const DRAG_MIME_TYPE = 'application/x-file-explorer-path';
+/** How long a dragged item has to hover a collapsed folder before it opens. */
+const AUTO_EXPAND_DELAY_MS = 600;
+
+export type DropTarget = {
+  path: string;
+  isValid: boolean;
+};
+
+/**
+ * A folder cannot be dropped into itself or its own descendants, and dropping an entry
+ * onto the folder it already lives in would be a no-op.
+ */
+export function canDropInto(sourcePath: string, folderPath: string): boolean {
+  return (
+    sourcePath !== 'root' &&
+    !isSameOrAncestorPath(sourcePath, folderPath) &&
+    parentPathOf(sourcePath) !== folderPath
+  );
+}
+
+/**
+ * Native HTML5 drag and drop for tree rows. Any row except the root can be dragged;
+ * folder rows are drop targets and open themselves after a short hover. The actual move
+ * is left to `onMove`.
+ */
+export function useTreeDragAndDrop({
+  expanded,
+  onExpand,
+  onMove,
+}: {
+  expanded: Set<string>;
+  onExpand: (folder: FolderNode) => void;
+  onMove: (sourcePath: string, folderPath: string) => void;
+}) {
+  const [draggingPath, setDraggingPath] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const expandTimerRef = useRef<{ path: string; timer: number } | null>(null);
+
+  const clearExpandTimer = () => {
+    if (expandTimerRef.current) {
+      window.clearTimeout(expandTimerRef.current.timer);
+      expandTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => clearExpandTimer, []);
+
+  const reset = () => {
+    clearExpandTimer();
+    setDraggingPath(null);
+    setDropTarget(null);
+  };
+
+  const scheduleExpand = (folder: FolderNode) => {
+    if (expanded.has(folder.path)) return;
+    if (expandTimerRef.current?.path === folder.path) return;
+
+    clearExpandTimer();
+    expandTimerRef.current = {
+      path: folder.path,
+      timer: window.setTimeout(() => {
+        expandTimerRef.current = null;
+        onExpand(folder);
+      }, AUTO_EXPAND_DELAY_MS),
+    };
+  };
+
+  const getDragProps = (node: TreeNode) => {
+    const isRoot = node.path === 'root';
+
+    return {
+      draggable: !isRoot,
+      onDragStart: (event: DragEvent<HTMLElement>) => {
+        if (isRoot) return;
+        event.dataTransfer.setData(DRAG_MIME_TYPE, node.path);
+        event.dataTransfer.setData('text/plain', node.path);
+        event.dataTransfer.effectAllowed = 'move';
+        setDraggingPath(node.path);
+      },
+      onDragEnd: reset,
+      onDragOver: (event: DragEvent<HTMLElement>) => {
+        // Drags from outside the tree carry no path we can move.
+        if (!draggingPath) return;
+
+        if (node.type !== 'folder') {
+          event.dataTransfer.dropEffect = 'none';
+          if (dropTarget) setDropTarget(null);
+          return;
+        }
+
+        const isValid = canDropInto(draggingPath, node.path);
+        if (isValid) {
+          event.preventDefault();
+          event.dataTransfer.dropEffect = 'move';
+          scheduleExpand(node);
+        } else {
+          event.dataTransfer.dropEffect = 'none';
+        }
+
+        const isCurrentTarget =
+          dropTarget?.path === node.path && dropTarget.isValid === isValid;
+        if (!isCurrentTarget) {
+          setDropTarget({ path: node.path, isValid });
+        }
+      },
+      onDragLeave: (event: DragEvent<HTMLElement>) => {
+        if (event.currentTarget.contains(event.relatedTarget as Node)) return;
+
+        if (expandTimerRef.current?.path === node.path) {
+          clearExpandTimer();
+        }
+        setDropTarget((prev) => (prev?.path === node.path ? null : prev));
+      },
+      onDrop: (event: DragEvent<HTMLElement>) => {
+        event.preventDefault();
+        const sourcePath =
+          event.dataTransfer.getData(DRAG_MIME_TYPE) || draggingPath;
+        reset();
+
+        if (
+          sourcePath &&
+          node.type === 'folder' &&
+          canDropInto(sourcePath, node.path)
+        ) {
+          onMove(sourcePath, node.path);
+        }
+      },
+    };
+  };
+
+  return { draggingPath, dropTarget, getDragProps };
+}
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { TreePatch, WatchEvent } from '../../types/fileTree';
+import { scopeParams } from './treeApi';
+import type { TreeScope } from './treeApi';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+/** Automatic attempts before giving up; "Reconnect" starts over. */
+const MAX_RECONNECT_ATTEMPTS = 8;
+/** How long the connection can be down before what is shown is likely out of date. */
+const STALE_AFTER_MS = 10000;
+
+/**
+ * - `reconnecting`: the connection dropped; changes made meanwhile are replayed when it
+ *   comes back.
+ * - `stale`: it has been down for a while, so the tree is probably out of date.
+ * - `offline`: the browser is offline or every attempt failed; nothing is retried
+ *   until `reconnect` is called or the browser comes back online.
+ */
+export type WatcherStatus =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'stale'
+  | 'offline';
+
+/**
+ * Subscribes to /api/file-tree/watch for `scope`, or stays disconnected while it is null.
+ *
+ * EventSource retries on its own, but at a fixed delay and forever, so on any error the
+ * source is closed and reopened here with exponential backoff instead. The id of the
+ * last event seen is passed along as `lastEventId`, and the server replays whatever was
+ * missed; if it no longer can, `onReset` is called and the tree has to be reloaded.
+ */
+export function useTreeWatcher(
+  scope: TreeScope | null,
+  {
+    onPatches,
+    onReset,
+  }: {
+    onPatches: (patches: TreePatch[]) => void;
+    onReset: () => void;
+  }
+): { status: WatcherStatus; reconnect: () => void } {
+  const [status, setStatus] = useState<WatcherStatus>('offline');
+  const handlersRef = useRef({ onPatches, onReset });
+  handlersRef.current = { onPatches, onReset };
+  const reconnectRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!scope) {
+      setStatus('offline');
+      return;
+    }
+
+    let eventSource: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let attempts = 0;
+    let retryTimer: number | null = null;
+    let staleTimer: number | null = null;
+
+    const clearTimers = () => {
+      if (retryTimer !== null) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      if (staleTimer !== null) {
+        clearTimeout(staleTimer);
+        staleTimer = null;
+      }
+    };
+
+    const disconnect = () => {
+      if (eventSource) {
+        eventSource.close();
+        eventSource = null;
+      }
+    };
+
+    const connect = () => {
+      retryTimer = null;
+      const params = scopeParams(scope);
+      if (lastEventId) {
+        params.set('lastEventId', lastEventId);
+      }
+      const source = new EventSource(`/api/file-tree/watch?${params}`);
+      eventSource = source;
+
+      source.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventId = event.lastEventId;
+        }
+
+        try {
+          const data: WatchEvent = JSON.parse(event.data);
+          switch (data.type) {
+            case 'connected':
+              console.log('✅ File watcher connected');
+              attempts = 0;
+              clearTimers();
+              setStatus('connected');
+              break;
+            case 'patch':
+              console.log(
+                `🔄 File tree updated (${data.patches.length} changes)`,
+                new Date().toLocaleTimeString()
+              );
+              handlersRef.current.onPatches(data.patches);
+              break;
+            case 'reset':
+              console.warn('⚠️ Missed file changes, reloading the tree');
+              handlersRef.current.onReset();
+              break;
+            case 'error':
+              console.error('❌ File watcher error:', data.message);
+              break;
+          }
+        } catch (err) {
+          console.error('Failed to parse SSE message:', err);
+        }
+      };
+
+      source.onerror = () => {
+        disconnect();
+        scheduleReconnect();
+      };
+    };
+
+    const scheduleReconnect = () => {
+      if (attempts >= MAX_RECONNECT_ATTEMPTS || !navigator.onLine) {
+        console.warn('⚠️ File watcher is offline');
+        clearTimers();
+        setStatus('offline');
+        return;
+      }
+
+      const delay = Math.min(INITIAL_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+      attempts++;
+      retryTimer = window.setTimeout(connect, delay);
+      if (staleTimer === null) {
+        setStatus('reconnecting');
+        staleTimer = window.setTimeout(() => {
+          setStatus((current) =>
+            current === 'reconnecting' ? 'stale' : current
+          );
+        }, STALE_AFTER_MS);
+      }
+    };
+
+    const reconnectNow = () => {
+      disconnect();
+      clearTimers();
+      attempts = 0;
+      setStatus('connecting');
+      connect();
+    };
+
+    const handleOffline = () => {
+      disconnect();
+      clearTimers();
+      setStatus('offline');
+    };
+
+    reconnectRef.current = reconnectNow;
+    window.addEventListener('online', reconnectNow);
+    window.addEventListener('offline', handleOffline);
+
+    // Deferred, so a mount that is immediately undone never opens a connection.
+    setStatus('connecting');
+    retryTimer = window.setTimeout(connect, 100);
+
+    return () => {
+      reconnectRef.current = null;
+      window.removeEventListener('online', reconnectNow);
+      window.removeEventListener('offline', handleOffline);
+      clearTimers();
+      disconnect();
+    };
+  }, [scope]);
+
+  const reconnect = useCallback(() => reconnectRef.current?.(), []);
+
+  return { status, reconnect };
+}
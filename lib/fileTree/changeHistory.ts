@@ -0,0 +1,89 @@
+import type { ChangeEvent } from '../../types/fileTree';
+import type { TreeRoot } from './roots';
+import { isSameOrAncestorTreePath } from './treePaths';
+
+/** Events kept per root; older ones are dropped as new ones come in. */
+export const HISTORY_SIZE = 1000;
+
+export type ChangeRecord = Omit<ChangeEvent, 'id' | 'timestamp'>;
+
+export type HistoryQuery = {
+  /** Only events noticed after this time, in milliseconds since the epoch. */
+  since: number | null;
+  /** Only events at or under this tree path, on either side of a rename. */
+  path: string | null;
+  limit: number;
+};
+
+type History = {
+  events: ChangeEvent[];
+  lastId: number;
+};
+
+const histories = new Map<string, History>();
+
+/**
+ * In-memory log of the changes the watch route has seen, read by /api/file-tree/history.
+ * Changes are only noticed while a root is watched, so the log has gaps while nobody
+ * is; it outlives the watcher itself, and is lost when the server restarts.
+ *
+ * Like watchers and search indexes, roots are logged separately with and without hidden
+ * entries, so a client never sees changes to entries it cannot list.
+ */
+export function recordChanges(
+  root: TreeRoot,
+  showHidden: boolean,
+  changes: ChangeRecord[]
+) {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const key = historyKey(root, showHidden);
+  const history = histories.get(key) ?? { events: [], lastId: 0 };
+  histories.set(key, history);
+
+  const timestamp = new Date().toISOString();
+  changes.forEach((change) => {
+    history.events.push({ ...change, id: ++history.lastId, timestamp });
+  });
+  if (history.events.length > HISTORY_SIZE) {
+    history.events.splice(0, history.events.length - HISTORY_SIZE);
+  }
+}
+
+/** The newest `limit` events matching the query, newest first. */
+export function readHistory(
+  root: TreeRoot,
+  showHidden: boolean,
+  { since, path, limit }: HistoryQuery
+): ChangeEvent[] {
+  const history = histories.get(historyKey(root, showHidden));
+  if (!history) {
+    return [];
+  }
+
+  const events: ChangeEvent[] = [];
+  for (
+    let index = history.events.length - 1;
+    index >= 0 && events.length < limit;
+    index--
+  ) {
+    const event = history.events[index];
+    if (since !== null && Date.parse(event.timestamp) <= since) {
+      break;
+    }
+    if (
+      path === null ||
+      isSameOrAncestorTreePath(path, event.path) ||
+      (event.from !== undefined && isSameOrAncestorTreePath(path, event.from))
+    ) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+function historyKey(root: TreeRoot, showHidden: boolean): string {
+  return showHidden ? `${root.id}:all` : root.id;
+}
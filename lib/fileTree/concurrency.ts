@@ -0,0 +1,40 @@
+/** How many directory reads and stats the server has in flight at once, across requests. */
+const FILE_SYSTEM_CONCURRENCY = 64;
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs at most `concurrency` of the tasks passed to the returned function at a time; the
+ * rest wait their turn in order. A task must not wait for another task of the same
+ * limiter, or the two can deadlock once every slot is taken.
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // A finishing task hands its slot straight to the next one, so `active` holds.
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Shared by every walk of the disk, so that large scans run in parallel without
+ * exhausting file descriptors. Only wrap single reads and stats in it, never a walk.
+ */
+export const limitFileSystem = createLimiter(FILE_SYSTEM_CONCURRENCY);
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+
+export class BadRequestError extends Error {}
+
+export class NotFoundError extends Error {}
+
+export class ConflictError extends Error {}
+
+/**
+ * Maps an error thrown while handling a file tree request to a JSON response. Anything
+ * that is not a known client error is logged and reported as a 500 with `fallbackMessage`.
+ */
+export function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof BadRequestError) {
+    return NextResponse.json({ message: error.message }, { status: 400 });
+  }
+  if (error instanceof NotFoundError || isNotFoundError(error)) {
+    return NextResponse.json(
+      {
+        message:
+          error instanceof NotFoundError ? error.message : 'Path not found.',
+      },
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof ConflictError) {
+    return NextResponse.json({ message: error.message }, { status: 409 });
+  }
+
+  console.error(fallbackMessage, error);
+  return NextResponse.json(
+    { message: `${fallbackMessage} See server logs for details.` },
+    { status: 500 }
+  );
+}
+
+export function isNotFoundError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
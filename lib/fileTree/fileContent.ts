@@ -0,0 +1,68 @@
+import { promises as fs } from 'node:fs';
+import type { FileContentKind } from '../../types/fileTree';
+
+/** How many leading bytes we inspect to decide whether a file is text. */
+export const SNIFF_BYTES = 8 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+};
+
+export function imageMimeType(extension: string | null): string | null {
+  return extension ? IMAGE_TYPES[extension.toLowerCase()] ?? null : null;
+}
+
+/**
+ * Treats a sample as binary if it contains a NUL byte or is not valid UTF-8. A multi-byte
+ * character cut off at the end of the sample is not held against it.
+ */
+export function isBinarySample(sample: Uint8Array): boolean {
+  if (sample.includes(0)) {
+    return true;
+  }
+
+  for (let trim = 0; trim < 4 && trim <= sample.length; trim++) {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(
+        sample.subarray(0, sample.length - trim)
+      );
+      return false;
+    } catch {
+      // Retry without the last few bytes in case a character was split.
+    }
+  }
+
+  return true;
+}
+
+export async function readSample(
+  absolutePath: string,
+  length = SNIFF_BYTES
+): Promise<Uint8Array> {
+  const handle = await fs.open(absolutePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function detectContentKind(
+  absolutePath: string,
+  extension: string | null
+): Promise<FileContentKind> {
+  if (imageMimeType(extension)) {
+    return 'image';
+  }
+  return isBinarySample(await readSample(absolutePath)) ? 'binary' : 'text';
+}
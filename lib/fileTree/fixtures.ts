@@ -0,0 +1,419 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { createLimiter } from './concurrency';
+
+/** Writes run wider than `limitFileSystem`: fixtures have the disk to themselves. */
+const WRITE_CONCURRENCY = 128;
+/** Every generated file is dated within this many days before FIXTURE_EPOCH. */
+const MODIFIED_SPREAD_DAYS = 365;
+/** Fixed, so a tree's dates depend on its seed and not on when it was generated. */
+const FIXTURE_EPOCH = Date.UTC(2024, 0, 1);
+/** Stays under the 255-byte name limit of common file systems, extension included. */
+const MAX_NAME_LENGTH = 200;
+/**
+ * Written at the top of every generated tree. A directory holding it can be replaced
+ * without asking; any other directory with something in it is only replaced on `force`.
+ */
+const MARKER_NAME = '.generated-file-tree';
+const MARKER_CONTENTS =
+  'Generated by lib/fileTree/fixtures.ts. Generating again replaces this folder.\n';
+
+const WORDS = [
+  'alpha',
+  'archive',
+  'assets',
+  'build',
+  'cache',
+  'client',
+  'common',
+  'config',
+  'core',
+  'data',
+  'docs',
+  'draft',
+  'export',
+  'feature',
+  'fixtures',
+  'helpers',
+  'import',
+  'internal',
+  'layout',
+  'legacy',
+  'media',
+  'models',
+  'notes',
+  'report',
+  'server',
+  'shared',
+  'source',
+  'static',
+  'styles',
+  'tests',
+  'tools',
+  'utils',
+];
+/** Names in other scripts, with combining marks, and with spaces. */
+const UNICODE_WORDS = [
+  'café',
+  'naïve',
+  'über',
+  'señal',
+  'Ærø',
+  'データ',
+  '日本語',
+  'данные',
+  'résumé',
+  'χαρτί',
+  'עברית',
+  'العربية',
+  '한국어',
+  'emoji 📁',
+  'école',
+  'with space',
+];
+
+/**
+ * How a generated tree looks. Ratios are probabilities between 0 and 1; the shape is
+ * drawn from `seed`, so the same profile always produces the same tree.
+ */
+export type FixtureProfile = {
+  seed: number;
+  /** Files and folders to create, the root not included. */
+  nodeCount: number;
+  /** Folders are only created up to this depth; the root's children are at depth 1. */
+  maxDepth: number;
+  /** Children per folder are drawn uniformly from this range. */
+  fanOut: { min: number; max: number };
+  /** Chance that a child is a folder rather than a file, below `maxDepth`. */
+  folderRatio: number;
+  /** Relative weights of file extensions; '' is a file without one. */
+  extensions: Record<string, number>;
+  /**
+   * File sizes follow a log-normal distribution around `medianBytes`, with `spread`
+   * as the standard deviation of the logarithm, capped at `maxBytes`.
+   */
+  fileSize: { medianBytes: number; spread: number; maxBytes: number };
+  /** Chance that a name starts with a dot. */
+  hiddenRatio: number;
+  /** Chance that a name contains non-ASCII characters or spaces. */
+  unicodeRatio: number;
+  /** Chance that a name is close to MAX_NAME_LENGTH characters long. */
+  longNameRatio: number;
+};
+
+const SOURCE_EXTENSIONS = {
+  ts: 8,
+  tsx: 5,
+  js: 3,
+  json: 2,
+  css: 1,
+  md: 2,
+  html: 1,
+  svg: 1,
+  sh: 0.5,
+  '': 0.5,
+};
+
+/** Named profiles for `ensureTreeOnDisk` and the `generate-tree` script. */
+export const FIXTURE_PROFILES = {
+  small: {
+    seed: 1,
+    nodeCount: 200,
+    maxDepth: 4,
+    fanOut: { min: 2, max: 8 },
+    folderRatio: 0.3,
+    extensions: SOURCE_EXTENSIONS,
+    fileSize: { medianBytes: 512, spread: 1, maxBytes: 64 * 1024 },
+    hiddenRatio: 0.05,
+    unicodeRatio: 0.05,
+    longNameRatio: 0.01,
+  },
+  large: {
+    seed: 1,
+    nodeCount: 10000,
+    maxDepth: 8,
+    fanOut: { min: 2, max: 40 },
+    folderRatio: 0.15,
+    extensions: SOURCE_EXTENSIONS,
+    fileSize: { medianBytes: 1024, spread: 1.5, maxBytes: 1024 * 1024 },
+    hiddenRatio: 0.03,
+    unicodeRatio: 0.02,
+    longNameRatio: 0.005,
+  },
+  huge: {
+    seed: 1,
+    nodeCount: 100000,
+    maxDepth: 10,
+    fanOut: { min: 2, max: 60 },
+    folderRatio: 0.12,
+    extensions: SOURCE_EXTENSIONS,
+    // Small files, so the tree stays a few hundred megabytes at most.
+    fileSize: { medianBytes: 256, spread: 1, maxBytes: 64 * 1024 },
+    hiddenRatio: 0.02,
+    unicodeRatio: 0.01,
+    longNameRatio: 0.002,
+  },
+  // A tree the explorer has to page through: few folders, each with thousands of files.
+  wide: {
+    seed: 1,
+    nodeCount: 20000,
+    maxDepth: 2,
+    fanOut: { min: 2000, max: 6000 },
+    folderRatio: 0.002,
+    extensions: SOURCE_EXTENSIONS,
+    fileSize: { medianBytes: 128, spread: 0.5, maxBytes: 4096 },
+    hiddenRatio: 0.01,
+    unicodeRatio: 0,
+    longNameRatio: 0,
+  },
+} satisfies Record<string, FixtureProfile>;
+
+export type FixtureProfileName = keyof typeof FIXTURE_PROFILES;
+
+export function isFixtureProfileName(
+  value: string
+): value is FixtureProfileName {
+  return Object.prototype.hasOwnProperty.call(FIXTURE_PROFILES, value);
+}
+
+/** What was planned before anything is written, in creation order. */
+type PlannedEntry =
+  | { type: 'folder'; relativePath: string }
+  | {
+      type: 'file';
+      relativePath: string;
+      sizeInBytes: number;
+      modifiedAt: Date;
+    };
+
+export type FixtureSummary = {
+  folderCount: number;
+  fileCount: number;
+  totalBytes: number;
+};
+
+/**
+ * Replaces `directory` with a tree generated from `profile`. The whole tree is drawn
+ * from the seed before anything is written, and files are written in parallel, so the
+ * order writes finish in has no effect on the result: names, contents, sizes and
+ * modification times are all the same for the same profile.
+ *
+ * A directory that is not empty is only replaced if it was generated before, unless
+ * `force` is set, so pointing this at the wrong path does not wipe it.
+ */
+export async function generateFixtureTree(
+  directory: string,
+  profile: FixtureProfile,
+  { force = false }: { force?: boolean } = {}
+): Promise<FixtureSummary> {
+  const entries = planTree(profile);
+
+  if (!force) {
+    await assertReplaceable(directory);
+  }
+  await fs.rm(directory, { recursive: true, force: true });
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, MARKER_NAME), MARKER_CONTENTS);
+
+  // Parents are planned before their children, so creating folders in order is safe.
+  for (const entry of entries) {
+    if (entry.type === 'folder') {
+      await fs.mkdir(path.join(directory, entry.relativePath));
+    }
+  }
+
+  const limit = createLimiter(WRITE_CONCURRENCY);
+  const summary: FixtureSummary = {
+    folderCount: 0,
+    fileCount: 0,
+    totalBytes: 0,
+  };
+  await Promise.all(
+    entries.map((entry) => {
+      if (entry.type === 'folder') {
+        summary.folderCount++;
+        return null;
+      }
+      summary.fileCount++;
+      summary.totalBytes += entry.sizeInBytes;
+      return limit(async () => {
+        const filePath = path.join(directory, entry.relativePath);
+        await fs.writeFile(
+          filePath,
+          fileContents(entry.relativePath, entry.sizeInBytes)
+        );
+        await fs.utimes(filePath, entry.modifiedAt, entry.modifiedAt);
+      });
+    })
+  );
+  return summary;
+}
+
+async function assertReplaceable(directory: string) {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  if (names.length > 0 && !names.includes(MARKER_NAME)) {
+    throw new Error(
+      `${directory} is not empty and was not generated by this script; ` +
+        'pass --force to replace it anyway.'
+    );
+  }
+}
+
+/**
+ * Lays the tree out breadth first: each folder gets its children in turn, and the
+ * folders among them queue up for theirs. Should every folder be full before
+ * `nodeCount` is reached (say, because `maxDepth` is low), the root takes the rest.
+ */
+function planTree(profile: FixtureProfile): PlannedEntry[] {
+  const random = createRandom(profile.seed);
+  const extensions = Object.entries(profile.extensions);
+  const totalWeight = extensions.reduce((sum, [, weight]) => sum + weight, 0);
+
+  const entries: PlannedEntry[] = [];
+  const namesByFolder = new Map([['', new Set<string>()]]);
+  const queue: { relativePath: string; depth: number }[] = [];
+
+  const pickExtension = () => {
+    let roll = random() * totalWeight;
+    for (const [extension, weight] of extensions) {
+      roll -= weight;
+      if (roll < 0) return extension;
+    }
+    return extensions[extensions.length - 1]?.[0] ?? '';
+  };
+
+  const pickName = (folder: string, isFolder: boolean) => {
+    const names = namesByFolder.get(folder)!;
+    let stem = pickStem(random, profile);
+    if (random() < profile.hiddenRatio) {
+      stem = `.${stem}`;
+    }
+    const extension = isFolder ? '' : pickExtension();
+    const suffix = extension ? `.${extension}` : '';
+
+    // Case-insensitive, for file systems that fold case.
+    let name = `${stem}${suffix}`;
+    for (let copy = 2; names.has(name.toLowerCase()); copy++) {
+      name = `${stem}-${copy}${suffix}`;
+    }
+    names.add(name.toLowerCase());
+    return name;
+  };
+
+  const root = { relativePath: '', depth: 0 };
+  let next = root;
+  while (entries.length < profile.nodeCount) {
+    const { min, max } = profile.fanOut;
+    const childCount = Math.min(
+      min + Math.floor(random() * (max - min + 1)),
+      profile.nodeCount - entries.length
+    );
+
+    for (let index = 0; index < childCount; index++) {
+      const isFolder =
+        next.depth + 1 < profile.maxDepth && random() < profile.folderRatio;
+      const name = pickName(next.relativePath, isFolder);
+      const relativePath = next.relativePath
+        ? path.join(next.relativePath, name)
+        : name;
+
+      if (isFolder) {
+        entries.push({ type: 'folder', relativePath });
+        namesByFolder.set(relativePath, new Set());
+        queue.push({ relativePath, depth: next.depth + 1 });
+      } else {
+        entries.push({
+          type: 'file',
+          relativePath,
+          sizeInBytes: pickSize(random, profile),
+          modifiedAt: new Date(
+            FIXTURE_EPOCH -
+              Math.floor(random() * MODIFIED_SPREAD_DAYS * 24 * 60 * 60) * 1000
+          ),
+        });
+      }
+    }
+
+    next = queue.shift() ?? root;
+  }
+  return entries;
+}
+
+function pickStem(random: () => number, profile: FixtureProfile): string {
+  const word = () => WORDS[Math.floor(random() * WORDS.length)];
+
+  if (random() < profile.longNameRatio) {
+    let stem = word();
+    while (stem.length < MAX_NAME_LENGTH - 20) {
+      stem += `-${word()}`;
+    }
+    return stem;
+  }
+  if (random() < profile.unicodeRatio) {
+    const unicodeWord =
+      UNICODE_WORDS[Math.floor(random() * UNICODE_WORDS.length)];
+    return `${word()}-${unicodeWord}`;
+  }
+  return random() < 0.5 ? word() : `${word()}-${word()}`;
+}
+
+function pickSize(random: () => number, profile: FixtureProfile): number {
+  const { medianBytes, spread, maxBytes } = profile.fileSize;
+  // Box-Muller; 1 - random() keeps the logarithm finite.
+  const normal =
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Math.min(
+    maxBytes,
+    Math.round(medianBytes * Math.exp(spread * normal))
+  );
+}
+
+/**
+ * A comment naming the file, in the syntax of its extension as in
+ * `scripts/create-file-tree.sh`, padded with filler lines to `sizeInBytes`.
+ */
+function fileContents(relativePath: string, sizeInBytes: number): Buffer {
+  const name = path.basename(relativePath);
+  const extension = name.includes('.')
+    ? name.slice(name.lastIndexOf('.') + 1)
+    : '';
+  let header: string;
+  if (['ts', 'tsx', 'js', 'jsx', 'json'].includes(extension)) {
+    header = `// ${name}\n`;
+  } else if (['css', 'scss', 'sass'].includes(extension)) {
+    header = `/* ${name} */\n`;
+  } else if (['md', 'html', 'svg'].includes(extension)) {
+    header = `<!-- ${name} -->\n`;
+  } else {
+    header = `# ${name}\n`;
+  }
+
+  const filler = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit.\n';
+  const contents = Buffer.alloc(sizeInBytes);
+  const written = contents.write(header);
+  if (written < sizeInBytes) {
+    contents.fill(filler, written);
+  }
+  return contents;
+}
+
+/** mulberry32: small, fast, and plenty for laying out fixtures. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,76 @@
+import type { FileNode, FolderAggregate } from '../../types/fileTree';
+
+/**
+ * Building blocks for folder aggregates. The tree reader and the watcher add up files on
+ * the server; the explorer merges aggregates when summing a selection. Shared with the
+ * client, so it must not import anything from Node.
+ */
+
+export function emptyAggregate(): FolderAggregate {
+  return {
+    fileCount: 0,
+    folderCount: 0,
+    totalBytes: 0,
+    newestModifiedAt: null,
+    extensions: {},
+  };
+}
+
+/** Counts one file into `aggregate`, in place. */
+export function addFileToAggregate(
+  aggregate: FolderAggregate,
+  file: Pick<FileNode, 'extension' | 'sizeInBytes' | 'modifiedAt'>
+) {
+  aggregate.fileCount++;
+  aggregate.totalBytes += file.sizeInBytes;
+  aggregate.newestModifiedAt = newer(
+    aggregate.newestModifiedAt,
+    file.modifiedAt
+  );
+  addExtension(aggregate, file.extension ?? '', 1, file.sizeInBytes);
+}
+
+/** Counts a folder and everything below it into `aggregate`, in place. */
+export function addFolderToAggregate(
+  aggregate: FolderAggregate,
+  folder: FolderAggregate
+) {
+  aggregate.fileCount += folder.fileCount;
+  aggregate.folderCount += folder.folderCount + 1;
+  aggregate.totalBytes += folder.totalBytes;
+  aggregate.newestModifiedAt = newer(
+    aggregate.newestModifiedAt,
+    folder.newestModifiedAt
+  );
+  Object.keys(folder.extensions).forEach((extension) => {
+    const total = folder.extensions[extension];
+    addExtension(aggregate, extension, total.count, total.sizeInBytes);
+  });
+}
+
+export function isSameAggregate(a: FolderAggregate, b: FolderAggregate) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function addExtension(
+  aggregate: FolderAggregate,
+  extension: string,
+  count: number,
+  sizeInBytes: number
+) {
+  const total = aggregate.extensions[extension] ?? {
+    count: 0,
+    sizeInBytes: 0,
+  };
+  aggregate.extensions[extension] = {
+    count: total.count + count,
+    sizeInBytes: total.sizeInBytes + sizeInBytes,
+  };
+}
+
+// ISO timestamps in the same format compare chronologically as strings.
+function newer(a: string | null, b: string | null): string | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a > b ? a : b;
+}
@@ -0,0 +1,200 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { GitStatus } from '../../types/fileTree';
+import type { TreeFilter } from './treeFilter';
+
+const execFileAsync = promisify(execFile);
+
+/** Generous, since `git status` lists every changed path in one go. */
+const MAX_STATUS_OUTPUT = 64 * 1024 * 1024;
+
+/** Higher wins when a folder rolls up the statuses below it. */
+const ROLL_UP_PRECEDENCE: Record<GitStatus, number> = {
+  conflicted: 4,
+  modified: 3,
+  added: 2,
+  untracked: 1,
+  ignored: 0,
+};
+
+/** Unmerged XY codes from `git status --porcelain`. */
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+export type GitRepository = {
+  topLevel: string;
+  /** The `.git` directory, which may live outside the working tree. */
+  gitDirectory: string;
+};
+
+/**
+ * Statuses for one root, with paths relative to the root and `/`-separated. Paths that
+ * git collapsed, such as an untracked folder, are stored with a trailing `/` and apply to
+ * everything below them.
+ */
+type GitStatusSnapshot = {
+  entries: Map<string, GitStatus>;
+  folders: Map<string, GitStatus>;
+};
+
+const snapshots = new WeakMap<TreeFilter, Promise<GitStatusSnapshot | null>>();
+
+/** The git working tree `directory` belongs to, or null if it is not in one. */
+export async function findGitRepository(
+  directory: string
+): Promise<GitRepository | null> {
+  try {
+    const { stdout } = await execFileAsync('git', [
+      '-C',
+      directory,
+      'rev-parse',
+      '--show-toplevel',
+      '--absolute-git-dir',
+    ]);
+    const [topLevel, gitDirectory] = stdout.trim().split('\n');
+    return topLevel && gitDirectory ? { topLevel, gitDirectory } : null;
+  } catch {
+    // Not a repository, a bare one, or no git binary: no decorations either way.
+    return null;
+  }
+}
+
+/**
+ * Status of the entry at `relativePath`, or undefined when it is clean or the root is
+ * not in a git working tree. `git status` runs once per filter, so once per request or
+ * watcher scan; ignored entries are only asked for when the filter lists them.
+ */
+export async function gitStatusOf(
+  filter: TreeFilter,
+  relativePath: string,
+  isDirectory: boolean
+): Promise<GitStatus | undefined> {
+  let snapshot = snapshots.get(filter);
+  if (!snapshot) {
+    snapshot = readSnapshot(filter.rootDirectory, filter.showHidden);
+    snapshots.set(filter, snapshot);
+  }
+
+  const loaded = await snapshot;
+  if (!loaded) {
+    return undefined;
+  }
+
+  const slashPath = relativePath.split(path.sep).join('/');
+  const own =
+    loaded.entries.get(slashPath) ??
+    (isDirectory ? loaded.entries.get(`${slashPath}/`) : undefined);
+  if (own) {
+    return own;
+  }
+
+  const segments = slashPath ? slashPath.split('/') : [];
+  for (let index = segments.length - 1; index > 0; index--) {
+    const inherited = loaded.entries.get(
+      `${segments.slice(0, index).join('/')}/`
+    );
+    if (inherited) {
+      return inherited;
+    }
+  }
+
+  return isDirectory ? loaded.folders.get(slashPath) : undefined;
+}
+
+async function readSnapshot(
+  directory: string,
+  includeIgnored: boolean
+): Promise<GitStatusSnapshot | null> {
+  const repository = await findGitRepository(directory);
+  if (!repository) {
+    return null;
+  }
+
+  const { stdout } = await execFileAsync(
+    'git',
+    [
+      '-C',
+      directory,
+      'status',
+      '--porcelain=v1',
+      '-z',
+      '--untracked-files=normal',
+      ...(includeIgnored ? ['--ignored'] : []),
+      '--',
+      '.',
+    ],
+    { maxBuffer: MAX_STATUS_OUTPUT }
+  );
+
+  // Porcelain paths are relative to the top level, which the root may sit below.
+  const [realTopLevel, realDirectory] = await Promise.all([
+    fs.realpath(repository.topLevel),
+    fs.realpath(directory),
+  ]);
+  const rootPrefix = path
+    .relative(realTopLevel, realDirectory)
+    .split(path.sep)
+    .join('/');
+
+  const snapshot: GitStatusSnapshot = {
+    entries: new Map(),
+    folders: new Map(),
+  };
+  const records = stdout.split('\0');
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    if (record.length < 4) continue;
+
+    const code = record.slice(0, 2);
+    // Renames and copies are followed by their source path, which no longer exists.
+    if (code.includes('R') || code.includes('C')) {
+      index++;
+    }
+
+    const repoPath = record.slice(3);
+    if (rootPrefix && !repoPath.startsWith(`${rootPrefix}/`)) continue;
+
+    const rootPath = rootPrefix
+      ? repoPath.slice(rootPrefix.length + 1)
+      : repoPath;
+    const status = toGitStatus(code);
+    snapshot.entries.set(rootPath, status);
+    if (status !== 'ignored') {
+      rollUp(snapshot.folders, rootPath, status);
+    }
+  }
+
+  return snapshot;
+}
+
+function toGitStatus(code: string): GitStatus {
+  if (code === '??') return 'untracked';
+  if (code === '!!') return 'ignored';
+  if (CONFLICT_CODES.has(code)) return 'conflicted';
+  if (/[ARC]/.test(code)) return 'added';
+  return 'modified';
+}
+
+/** Records `status` on every folder above `rootPath`, up to the root itself (''). */
+function rollUp(
+  folders: Map<string, GitStatus>,
+  rootPath: string,
+  status: GitStatus
+) {
+  const segments = rootPath.replace(/\/$/, '').split('/');
+
+  for (let depth = segments.length - 1; depth >= 0; depth--) {
+    const folder = segments.slice(0, depth).join('/');
+    const current = folders.get(folder);
+    // Folders further up already carry at least the same status.
+    if (
+      current &&
+      ROLL_UP_PRECEDENCE[current] >= ROLL_UP_PRECEDENCE[status]
+    ) {
+      return;
+    }
+    folders.set(folder, status);
+  }
+}
@@ -0,0 +1,318 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { Worker } from 'node:worker_threads';
+import type { GrepLineMatch, TextRange } from '../../types/fileTree';
+import { BadRequestError, isNotFoundError } from './errors';
+import { isBinarySample, SNIFF_BYTES } from './fileContent';
+import { readVisibleEntries } from './readTree';
+import { createGlobMatcher } from './treeFilter';
+import type { TreeEntry, TreeFilter } from './treeFilter';
+import { toTreePath } from './treePaths';
+
+/** Larger files are skipped rather than read into memory whole. */
+export const MAX_GREP_FILE_BYTES = 1024 * 1024;
+/** Longer lines, minified code mostly, are cut down to a window around the first match. */
+const MAX_LINE_LENGTH = 400;
+/** How much of a cut line is kept before its first match. */
+const LINE_CONTEXT = 80;
+/** How long matching one file may take before the pattern is given up on. */
+const MATCH_TIMEOUT_MS = 1000;
+
+/**
+ * Matching runs in a worker thread, since a regular expression can backtrack for minutes
+ * on a single line: on the server's own thread that would stall every request, and
+ * cancelling the search could not interrupt it. The worker receives a file's text and
+ * answers with the ranges matched on each matching line, as `[lineIndex, ranges]`.
+ */
+const MATCH_WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const pattern = new RegExp(workerData.source, workerData.flags);
+
+parentPort.on('message', (text) => {
+  const lines = [];
+  text.split(/\\r?\\n/).forEach((line, index) => {
+    const ranges = [];
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+      if (match[0].length === 0) {
+        // An empty match highlights nothing, and would match here forever.
+        pattern.lastIndex += 1;
+        continue;
+      }
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+    if (ranges.length > 0) lines.push([index, ranges]);
+  });
+  parentPort.postMessage(lines);
+});
+`;
+
+type LineRanges = [lineIndex: number, ranges: TextRange[]];
+
+type Matcher = {
+  match: (text: string, treePath: string) => Promise<LineRanges[]>;
+  close: () => void;
+};
+
+export type GrepOptions = {
+  pattern: RegExp;
+  /** Only files matching one of these globs are searched, if there are any. */
+  include: string[];
+  /** Files and folders matching one of these globs are skipped. */
+  exclude: string[];
+  /** Stop after this many matching lines. */
+  limit: number;
+};
+
+export type GrepSummary = {
+  filesSearched: number;
+  filesSkipped: number;
+  matchCount: number;
+  truncated: boolean;
+};
+
+/**
+ * Builds the pattern for a query: the query itself when `regex` is set, otherwise the
+ * query matched literally. Throws a BadRequestError for an invalid regular expression.
+ */
+export function compileGrepPattern(
+  query: string,
+  regex: boolean,
+  caseSensitive: boolean
+): RegExp {
+  const flags = caseSensitive ? 'g' : 'gi';
+  if (!regex) {
+    return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+  }
+
+  try {
+    return new RegExp(query, flags);
+  } catch (error) {
+    // The message already reads "Invalid regular expression: /…/: reason".
+    throw new BadRequestError((error as Error).message);
+  }
+}
+
+/**
+ * Searches the contents of every file the filter lists under `relativePath`, folder by
+ * folder in name order, and reports each file with matches through `onFile` as soon as
+ * it has been read. Binary files and files over MAX_GREP_FILE_BYTES are skipped. The
+ * search stops once `signal` is aborted, mid-file if need be, and throws a
+ * BadRequestError if the pattern takes longer than MATCH_TIMEOUT_MS on one file.
+ */
+export async function grepTree(
+  rootDirectory: string,
+  relativePath: string,
+  filter: TreeFilter,
+  options: GrepOptions,
+  signal: AbortSignal,
+  onFile: (treePath: string, matches: GrepLineMatch[]) => void
+): Promise<GrepSummary> {
+  const isIncluded = createGlobMatcher(options.include);
+  const isExcluded = createGlobMatcher(options.exclude);
+  const summary: GrepSummary = {
+    filesSearched: 0,
+    filesSkipped: 0,
+    matchCount: 0,
+    truncated: false,
+  };
+  const matcher = startMatcher(options.pattern, signal);
+
+  const searchDirectory = async (folderPath: string) => {
+    let entries: TreeEntry[];
+    try {
+      entries = await readVisibleEntries(
+        path.join(rootDirectory, folderPath),
+        folderPath,
+        filter
+      );
+    } catch (error) {
+      // The folder was removed while we were searching.
+      if (isNotFoundError(error)) return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (signal.aborted || summary.truncated) return;
+
+      const entryPath = folderPath
+        ? path.join(folderPath, entry.name)
+        : entry.name;
+      const slashPath = entryPath.split(path.sep).join('/');
+      if (isExcluded(slashPath, entry.isDirectory)) continue;
+
+      if (entry.isDirectory) {
+        await searchDirectory(entryPath);
+        continue;
+      }
+      // Links to files may point outside the root, so only their own listing counts.
+      if (entry.link) continue;
+      if (options.include.length > 0 && !isIncluded(slashPath, false)) {
+        continue;
+      }
+
+      const matches = await searchFile(
+        path.join(rootDirectory, entryPath),
+        toTreePath(entryPath),
+        matcher,
+        options.limit - summary.matchCount
+      );
+      if (signal.aborted) return;
+      if (matches === null) {
+        summary.filesSkipped += 1;
+        continue;
+      }
+
+      summary.filesSearched += 1;
+      summary.truncated = matches.truncated;
+      if (matches.lines.length > 0) {
+        summary.matchCount += matches.lines.length;
+        onFile(toTreePath(entryPath), matches.lines);
+      }
+    }
+  };
+
+  try {
+    await searchDirectory(relativePath);
+  } finally {
+    matcher.close();
+  }
+  return summary;
+}
+
+/**
+ * The first `limit` matching lines of a file, or null if it is skipped. `truncated` is
+ * set when the file has more.
+ */
+async function searchFile(
+  absolutePath: string,
+  treePath: string,
+  matcher: Matcher,
+  limit: number
+): Promise<{ lines: GrepLineMatch[]; truncated: boolean } | null> {
+  let contents: Buffer;
+  try {
+    const stats = await fs.stat(absolutePath);
+    if (stats.size > MAX_GREP_FILE_BYTES) {
+      return null;
+    }
+    contents = await fs.readFile(absolutePath);
+  } catch (error) {
+    // Removed since its folder was read; it has nothing to report.
+    if (isNotFoundError(error)) return { lines: [], truncated: false };
+    throw error;
+  }
+  if (isBinarySample(contents.subarray(0, SNIFF_BYTES))) {
+    return null;
+  }
+
+  const text = contents.toString('utf8');
+  const matched = await matcher.match(text, treePath);
+  const texts = text.split(/\r?\n/);
+
+  const lines: GrepLineMatch[] = [];
+  for (const [index, ranges] of matched) {
+    if (lines.length === limit) {
+      return { lines, truncated: true };
+    }
+    lines.push({ line: index + 1, ...clipLine(texts[index], ranges) });
+  }
+  return { lines, truncated: false };
+}
+
+/**
+ * Starts the worker that matches `pattern` for one search. Files are matched one at a
+ * time; the worker is stopped when a file runs over MATCH_TIMEOUT_MS, when `signal` is
+ * aborted (a pending match then resolves with nothing) and when `close` is called.
+ */
+function startMatcher(pattern: RegExp, signal: AbortSignal): Matcher {
+  const worker = new Worker(MATCH_WORKER_SOURCE, {
+    eval: true,
+    workerData: { source: pattern.source, flags: pattern.flags },
+  });
+  let pending: {
+    resolve: (lines: LineRanges[]) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  const settle = (outcome: LineRanges[] | Error) => {
+    const current = pending;
+    pending = null;
+    if (outcome instanceof Error) {
+      current?.reject(outcome);
+    } else {
+      current?.resolve(outcome);
+    }
+  };
+  worker.on('message', (lines: LineRanges[]) => settle(lines));
+  worker.on('error', (error) => settle(error));
+  worker.on('exit', () =>
+    settle(signal.aborted ? [] : new Error('The search worker stopped.'))
+  );
+
+  const stop = () => {
+    worker.terminate();
+  };
+  signal.addEventListener('abort', stop);
+
+  return {
+    match: (text, treePath) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          settle(
+            new BadRequestError(
+              `The pattern took more than ${MATCH_TIMEOUT_MS / 1000}s to search ${treePath}; try a simpler one.`
+            )
+          );
+          stop();
+        }, MATCH_TIMEOUT_MS);
+        pending = {
+          resolve: (lines) => {
+            clearTimeout(timer);
+            resolve(lines);
+          },
+          reject: (error) => {
+            clearTimeout(timer);
+            reject(error);
+          },
+        };
+        worker.postMessage(text);
+      }),
+    close: () => {
+      signal.removeEventListener('abort', stop);
+      stop();
+    },
+  };
+}
+
+/**
+ * Cuts a long line down to MAX_LINE_LENGTH characters, starting a little before its
+ * first match, and marks the cuts with an ellipsis.
+ */
+function clipLine(
+  text: string,
+  ranges: TextRange[]
+): { text: string; ranges: TextRange[] } {
+  if (text.length <= MAX_LINE_LENGTH) {
+    return { text, ranges };
+  }
+
+  const start = Math.max(
+    0,
+    Math.min(ranges[0][0] - LINE_CONTEXT, text.length - MAX_LINE_LENGTH)
+  );
+  const end = start + MAX_LINE_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    ranges: ranges
+      .filter(([rangeStart]) => rangeStart < end)
+      .map(([rangeStart, rangeEnd]): TextRange => [
+        rangeStart + offset,
+        Math.min(rangeEnd, end) + offset,
+      ]),
+  };
+}
@@ -0,0 +1,109 @@
+import type { TreePatch } from '../../types/fileTree';
+import { isSameAggregate } from './folderAggregate';
+import type { TreeIndex } from './treeIndex';
+
+/**
+ * Turns the entries a rescan touched, as they were and as they are, into patches.
+ * Removals and additions are reported only for the top-most path (a removed folder
+ * implies its contents), and a removal/addition pair with a unique matching signature is
+ * reported as a rename, since a rename keeps a file's size and mtime and a folder's
+ * contents.
+ *
+ * Folders whose aggregate changed are reported as changed metadata, which covers every
+ * ancestor of an addition, removal or edit, up to the root.
+ */
+export function diffIndexes(previous: TreeIndex, next: TreeIndex): TreePatch[] {
+  const removed: string[] = [];
+  const added: string[] = [];
+  const changed: TreePatch[] = [];
+
+  previous.forEach((entry, treePath) => {
+    const nextEntry = next.get(treePath);
+    if (!nextEntry || nextEntry.node.type !== entry.node.type) {
+      removed.push(treePath);
+    } else if (
+      (nextEntry.node.type !== 'folder' &&
+        nextEntry.signature !== entry.signature) ||
+      (nextEntry.node.type === 'folder' &&
+        entry.node.type === 'folder' &&
+        !isSameAggregate(nextEntry.node.aggregate, entry.node.aggregate)) ||
+      Boolean(nextEntry.node.ignored) !== Boolean(entry.node.ignored) ||
+      nextEntry.node.gitStatus !== entry.node.gitStatus
+    ) {
+      changed.push({
+        op: 'metadata-changed',
+        path: treePath,
+        node: nextEntry.node,
+      });
+    }
+  });
+
+  next.forEach((entry, treePath) => {
+    const previousEntry = previous.get(treePath);
+    if (!previousEntry || previousEntry.node.type !== entry.node.type) {
+      added.push(treePath);
+    }
+  });
+
+  const topRemoved = keepTopMost(removed);
+  const topAdded = keepTopMost(added);
+
+  const removedBySignature = groupBySignature(topRemoved, previous);
+  const addedBySignature = groupBySignature(topAdded, next);
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<string>();
+  const renamed: TreePatch[] = [];
+
+  removedBySignature.forEach((fromPaths, signature) => {
+    const toPaths = addedBySignature.get(signature);
+    if (fromPaths.length !== 1 || !toPaths || toPaths.length !== 1) {
+      return;
+    }
+
+    renamedFrom.add(fromPaths[0]);
+    renamedTo.add(toPaths[0]);
+    renamed.push({
+      op: 'renamed',
+      from: fromPaths[0],
+      path: toPaths[0],
+      node: next.get(toPaths[0])!.node,
+    });
+  });
+
+  return [
+    ...renamed,
+    ...topRemoved
+      .filter((treePath) => !renamedFrom.has(treePath))
+      .map((treePath): TreePatch => ({ op: 'removed', path: treePath })),
+    ...topAdded
+      .filter((treePath) => !renamedTo.has(treePath))
+      .map(
+        (treePath): TreePatch => ({
+          op: 'added',
+          path: treePath,
+          node: next.get(treePath)!.node,
+        })
+      ),
+    ...changed,
+  ];
+}
+
+function keepTopMost(paths: string[]): string[] {
+  const pathSet = new Set(paths);
+  return paths.filter((treePath) => {
+    const parentPath = treePath.slice(0, treePath.lastIndexOf('/'));
+    return !pathSet.has(parentPath);
+  });
+}
+
+function groupBySignature(
+  paths: string[],
+  index: TreeIndex
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const treePath of paths) {
+    const signature = index.get(treePath)!.signature;
+    groups.set(signature, [...(groups.get(signature) ?? []), treePath]);
+  }
+  return groups;
+}
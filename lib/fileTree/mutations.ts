@@ -0,0 +1,216 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { TreePatch } from '../../types/fileTree';
+import { BadRequestError, ConflictError, NotFoundError } from './errors';
+import { readNode } from './readTree';
+import type { TreeRoot } from './roots';
+import type { TreeFilter } from './treeFilter';
+import {
+  fromTreePath,
+  isSameOrAncestorTreePath,
+  isValidName,
+  ROOT_KEY,
+  toTreePath,
+} from './treePaths';
+
+/**
+ * Disk mutations behind the file tree API. Each one returns the patch describing what
+ * changed, so the calling client can update immediately; every other client hears about
+ * it from the watcher.
+ *
+ * Tree paths are validated segment by segment by `fromTreePath`, and every target is
+ * additionally checked after resolving symlinks, so a link inside the root cannot be
+ * used to reach files outside it.
+ *
+ * `filter` only shapes the node sent back in the patch (its `ignored` flag and child
+ * count), so it should match the filter the calling client lists the tree with.
+ */
+
+export type EntryType = 'file' | 'folder';
+
+export async function createEntry(
+  root: TreeRoot,
+  parentPath: string,
+  name: string,
+  entryType: EntryType,
+  filter: TreeFilter
+): Promise<TreePatch> {
+  assertValidName(name);
+
+  const parentRelative = fromTreePath(parentPath);
+  const parentAbsolute = await resolveInsideRoot(root, parentRelative);
+  await assertFolder(parentAbsolute, parentPath);
+
+  const relativePath = path.join(parentRelative, name);
+  const absolutePath = path.join(parentAbsolute, name);
+
+  try {
+    if (entryType === 'folder') {
+      await fs.mkdir(absolutePath);
+    } else {
+      await fs.writeFile(absolutePath, '', { flag: 'wx' });
+    }
+  } catch (error) {
+    throw translateConflict(error, toTreePath(relativePath));
+  }
+
+  const node = await readNode(absolutePath, relativePath, filter);
+  return { op: 'added', path: node.path, node };
+}
+
+/**
+ * Moves `treePath` into `targetParentPath` under `name`. A rename is a move within the
+ * same parent.
+ */
+export async function moveEntry(
+  root: TreeRoot,
+  treePath: string,
+  targetParentPath: string,
+  name: string,
+  filter: TreeFilter
+): Promise<TreePatch> {
+  assertNotRoot(treePath);
+  assertValidName(name);
+
+  const targetPath = `${targetParentPath}/${name}`;
+  if (isSameOrAncestorTreePath(treePath, targetParentPath)) {
+    throw new BadRequestError(
+      `Cannot move ${treePath} into itself or one of its descendants.`
+    );
+  }
+
+  const sourceRelative = fromTreePath(treePath);
+  const sourceAbsolute = await resolveInsideRoot(root, sourceRelative, {
+    followFinalLink: false,
+  });
+  const targetParentRelative = fromTreePath(targetParentPath);
+  const targetParentAbsolute = await resolveInsideRoot(
+    root,
+    targetParentRelative
+  );
+  await assertFolder(targetParentAbsolute, targetParentPath);
+
+  const targetRelative = path.join(targetParentRelative, name);
+  const targetAbsolute = path.join(targetParentAbsolute, name);
+
+  // fs.rename silently replaces files, so check for an existing entry first. A
+  // case-only rename on a case-insensitive disk resolves to the source itself.
+  if (await pathExists(targetAbsolute)) {
+    const [sourceStat, targetStat] = await Promise.all([
+      fs.lstat(sourceAbsolute),
+      fs.lstat(targetAbsolute),
+    ]);
+    const isSameEntry =
+      sourceStat.ino === targetStat.ino && sourceStat.dev === targetStat.dev;
+    if (!isSameEntry) {
+      throw new ConflictError(`${targetPath} already exists.`);
+    }
+  }
+
+  try {
+    await fs.rename(sourceAbsolute, targetAbsolute);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'EXDEV') {
+      throw translateConflict(error, targetPath);
+    }
+    // Roots can span mounts; fall back to copy-then-delete.
+    await fs.cp(sourceAbsolute, targetAbsolute, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+    });
+    await fs.rm(sourceAbsolute, { recursive: true, force: true });
+  }
+
+  const node = await readNode(targetAbsolute, targetRelative, filter);
+  return { op: 'renamed', from: treePath, path: node.path, node };
+}
+
+export async function deleteEntry(
+  root: TreeRoot,
+  treePath: string
+): Promise<TreePatch> {
+  assertNotRoot(treePath);
+
+  const absolutePath = await resolveInsideRoot(root, fromTreePath(treePath), {
+    followFinalLink: false,
+  });
+  await fs.rm(absolutePath, { recursive: true });
+
+  return { op: 'removed', path: treePath };
+}
+
+/**
+ * Resolves `relativePath` inside the root and makes sure the real location of the entry
+ * (or of its parent, when `followFinalLink` is false) is still inside the root.
+ */
+async function resolveInsideRoot(
+  root: TreeRoot,
+  relativePath: string,
+  { followFinalLink = true }: { followFinalLink?: boolean } = {}
+): Promise<string> {
+  const rootReal = await fs.realpath(root.directory);
+  const absolutePath = path.join(root.directory, relativePath);
+
+  let checkedReal: string;
+  try {
+    checkedReal = followFinalLink
+      ? await fs.realpath(absolutePath)
+      : path.join(
+          await fs.realpath(path.dirname(absolutePath)),
+          path.basename(absolutePath)
+        );
+    await fs.lstat(checkedReal);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      throw new NotFoundError(`${toTreePath(relativePath)} does not exist.`);
+    }
+    throw error;
+  }
+
+  const isInsideRoot =
+    checkedReal === rootReal || checkedReal.startsWith(rootReal + path.sep);
+  if (!isInsideRoot) {
+    throw new BadRequestError(
+      `${toTreePath(relativePath)} resolves outside the root.`
+    );
+  }
+
+  return absolutePath;
+}
+
+async function assertFolder(absolutePath: string, treePath: string) {
+  const stats = await fs.stat(absolutePath);
+  if (!stats.isDirectory()) {
+    throw new BadRequestError(`${treePath} is not a folder.`);
+  }
+}
+
+function assertValidName(name: string) {
+  if (typeof name !== 'string' || !isValidName(name)) {
+    throw new BadRequestError(`Invalid name: ${name}`);
+  }
+}
+
+function assertNotRoot(treePath: string) {
+  if (treePath === ROOT_KEY) {
+    throw new BadRequestError('The root folder cannot be moved or deleted.');
+  }
+}
+
+async function pathExists(absolutePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(absolutePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function translateConflict(error: unknown, treePath: string): unknown {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code === 'EEXIST' || code === 'ENOTEMPTY') {
+    return new ConflictError(`${treePath} already exists.`);
+  }
+  return error;
+}
@@ -0,0 +1,410 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type {
+  BaseNode,
+  FileNode,
+  FolderAggregate,
+  FolderNode,
+  SortOrder,
+  SymlinkNode,
+  TreeNode,
+} from '../../types/fileTree';
+import { limitFileSystem } from './concurrency';
+import {
+  addFileToAggregate,
+  addFolderToAggregate,
+  emptyAggregate,
+} from './folderAggregate';
+import {
+  compareBySortOrder,
+  DEFAULT_SORT_ORDER,
+  needsFileStats,
+} from './sortOrder';
+import type { SortFields } from './sortOrder';
+import { gitStatusOf } from './gitStatus';
+import { inspectLink, readLinkTarget } from './symlinks';
+import type { LinkInfo } from './symlinks';
+import { filterEntries, isIgnoredPath } from './treeFilter';
+import type { TreeEntry, TreeFilter } from './treeFilter';
+import type { TreeIndex } from './treeIndex';
+import { extractExtension, toTreePath } from './treePaths';
+
+/** Flags a node picks up from the filter and from git, rather than from the disk. */
+type NodeFlags = Pick<BaseNode, 'ignored' | 'gitStatus'>;
+
+/** Aggregates computed with each filter, which lives for one request or one scan. */
+const aggregateCaches = new WeakMap<
+  TreeFilter,
+  Map<string, Promise<FolderAggregate>>
+>();
+/** Tree indexes whose folder totals a filter can use instead of walking the disk. */
+const seededIndexes = new WeakMap<TreeFilter, TreeIndex>();
+
+/**
+ * Reads one folder level, plus `depth - 1` further levels below it. Only the page of
+ * direct children starting at `offset` is read; deeper folders get their first page.
+ * Folders past the depth limit come back unloaded, with just their child count and
+ * aggregate.
+ */
+export async function readFolder(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter,
+  order: SortOrder,
+  depth: number,
+  offset: number,
+  limit: number
+): Promise<FolderNode> {
+  const entries = await readVisibleEntries(
+    absolutePath,
+    relativePath,
+    filter,
+    order
+  );
+  const folder = toUnloadedFolder(
+    relativePath,
+    entries.length,
+    await readAggregate(absolutePath, relativePath, filter),
+    await readFlags(filter, relativePath, true)
+  );
+  const linkTarget = relativePath ? await readLinkTarget(absolutePath) : null;
+  if (linkTarget !== null) {
+    folder.linkTarget = linkTarget;
+  }
+
+  if (depth === 0) {
+    return folder;
+  }
+
+  const end = Math.min(offset + limit, entries.length);
+  folder.children = await readEntries(
+    entries.slice(offset, end),
+    absolutePath,
+    relativePath,
+    filter,
+    order,
+    depth - 1,
+    limit
+  );
+  folder.nextCursor = end < entries.length ? String(end) : null;
+
+  return folder;
+}
+
+/** Reads a single file, symlink, or a folder as an unloaded node. */
+export async function readNode(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter
+): Promise<TreeNode> {
+  const stats = await fs.lstat(absolutePath);
+  let isFolder = stats.isDirectory();
+
+  if (stats.isSymbolicLink()) {
+    const parentRelative = path.dirname(relativePath);
+    const { link, follow } = await inspectLink(
+      filter,
+      path.dirname(absolutePath),
+      parentRelative === '.' ? '' : parentRelative,
+      path.basename(absolutePath)
+    );
+    if (!follow) {
+      return toSymlinkNode(
+        relativePath,
+        link,
+        await readFlags(filter, relativePath, false)
+      );
+    }
+    isFolder = true;
+  }
+
+  if (isFolder) {
+    return readFolder(
+      absolutePath,
+      relativePath,
+      filter,
+      DEFAULT_SORT_ORDER,
+      0,
+      0,
+      0
+    );
+  }
+
+  return toFileNode(
+    relativePath,
+    stats,
+    await readFlags(filter, relativePath, false)
+  );
+}
+
+/**
+ * Lists the entries the explorer shows, in `order`. What is shown is up to `filter`;
+ * anything that is not a file, folder or symlink is skipped, and symlinks are either
+ * followed or listed as links, as `inspectLink` decides. Sorting by size or date stats
+ * every file in the folder, since the order has to be known before a page is cut.
+ */
+export async function readVisibleEntries(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter,
+  order: SortOrder = DEFAULT_SORT_ORDER
+): Promise<TreeEntry[]> {
+  const dirents = await fs.readdir(absolutePath, { withFileTypes: true });
+  const candidates = await Promise.all(
+    dirents.map(async (entry) => {
+      if (entry.isSymbolicLink()) {
+        const { link, follow } = await inspectLink(
+          filter,
+          absolutePath,
+          relativePath,
+          entry.name
+        );
+        return { name: entry.name, isDirectory: follow, link };
+      }
+      if (entry.isDirectory() || entry.isFile()) {
+        return { name: entry.name, isDirectory: entry.isDirectory() };
+      }
+      return null;
+    })
+  );
+  const filtered = await filterEntries(
+    filter,
+    relativePath,
+    candidates.filter(
+      (candidate): candidate is NonNullable<typeof candidate> =>
+        candidate !== null
+    )
+  );
+  const entries = await Promise.all(
+    filtered.map(async (entry) => {
+      const gitStatus = await gitStatusOf(
+        filter,
+        path.join(relativePath, entry.name),
+        entry.isDirectory
+      );
+      return gitStatus ? { ...entry, gitStatus } : entry;
+    })
+  );
+
+  const withFields = await Promise.all(
+    entries.map(async (entry) => ({
+      entry,
+      fields: await toSortFields(entry, absolutePath, order),
+    }))
+  );
+
+  return withFields
+    .sort((a, b) => compareBySortOrder(a.fields, b.fields, order))
+    .map(({ entry }) => entry);
+}
+
+export function toFileNode(
+  relativePath: string,
+  stats: { size: number; mtime: Date },
+  flags: NodeFlags = {}
+): FileNode {
+  const name = path.basename(relativePath);
+
+  return {
+    type: 'file',
+    name,
+    path: toTreePath(relativePath),
+    extension: extractExtension(name),
+    sizeInBytes: stats.size,
+    modifiedAt: stats.mtime.toISOString(),
+    ...nodeFlags(flags),
+  };
+}
+
+/**
+ * Totals for everything below a folder that `filter` lets through. This walks the whole
+ * subtree, but every folder in it is cached against the filter, so the child folders of
+ * a page come for free once their parent has been added up.
+ */
+export function readAggregate(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter
+): Promise<FolderAggregate> {
+  let cache = aggregateCaches.get(filter);
+  if (!cache) {
+    cache = new Map();
+    aggregateCaches.set(filter, cache);
+  }
+
+  let aggregate = cache.get(relativePath);
+  if (!aggregate) {
+    const indexed = seededIndexes.get(filter)?.get(toTreePath(relativePath));
+    aggregate =
+      indexed?.node.type === 'folder'
+        ? Promise.resolve(indexed.node.aggregate)
+        : walkAggregate(absolutePath, relativePath, filter);
+    cache.set(relativePath, aggregate);
+  }
+  return aggregate;
+}
+
+/**
+ * Lets `readAggregate` take folder totals from a tree index built with the same root
+ * and `showHidden` as `filter`, so listing a folder does not walk everything below it.
+ */
+export function seedAggregates(filter: TreeFilter, index: TreeIndex) {
+  seededIndexes.set(filter, index);
+}
+
+export function toSymlinkNode(
+  relativePath: string,
+  link: LinkInfo,
+  flags: NodeFlags = {}
+): SymlinkNode {
+  return {
+    type: 'symlink',
+    name: path.basename(relativePath),
+    path: toTreePath(relativePath),
+    ...link,
+    ...nodeFlags(flags),
+  };
+}
+
+export function toUnloadedFolder(
+  relativePath: string,
+  childCount: number,
+  aggregate: FolderAggregate,
+  flags: NodeFlags = {}
+): FolderNode {
+  return {
+    type: 'folder',
+    name: path.basename(relativePath),
+    path: toTreePath(relativePath),
+    children: [],
+    childCount,
+    hasChildren: childCount > 0,
+    nextCursor: childCount > 0 ? '0' : null,
+    aggregate,
+    ...nodeFlags(flags),
+  };
+}
+
+async function readEntries(
+  entries: TreeEntry[],
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter,
+  order: SortOrder,
+  remainingDepth: number,
+  limit: number
+): Promise<TreeNode[]> {
+  return Promise.all(
+    entries.map(async (entry): Promise<TreeNode> => {
+      const entryAbsolute = path.join(absolutePath, entry.name);
+      const entryRelative = relativePath
+        ? path.join(relativePath, entry.name)
+        : entry.name;
+
+      if (entry.isDirectory) {
+        return readFolder(
+          entryAbsolute,
+          entryRelative,
+          filter,
+          order,
+          remainingDepth,
+          0,
+          limit
+        );
+      }
+
+      if (entry.link) {
+        return toSymlinkNode(entryRelative, entry.link, entry);
+      }
+
+      const stats = await limitFileSystem(() => fs.stat(entryAbsolute));
+      return toFileNode(entryRelative, stats, entry);
+    })
+  );
+}
+
+async function readFlags(
+  filter: TreeFilter,
+  relativePath: string,
+  isDirectory: boolean
+): Promise<NodeFlags> {
+  const [ignored, gitStatus] = await Promise.all([
+    isIgnoredPath(filter, relativePath, isDirectory),
+    gitStatusOf(filter, relativePath, isDirectory),
+  ]);
+  return { ignored, gitStatus };
+}
+
+function nodeFlags({ ignored, gitStatus }: NodeFlags): NodeFlags {
+  return {
+    ...(ignored && { ignored }),
+    ...(gitStatus && { gitStatus }),
+  };
+}
+
+/**
+ * Child folders and files are read in parallel, but added up in listing order, so that
+ * the totals come out the same as the tree index's, extension order included.
+ */
+async function walkAggregate(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter
+): Promise<FolderAggregate> {
+  const entries = await limitFileSystem(() =>
+    readVisibleEntries(absolutePath, relativePath, filter)
+  );
+  const totals = await Promise.all(
+    entries.map(async (entry) => {
+      const entryAbsolute = path.join(absolutePath, entry.name);
+      const entryRelative = relativePath
+        ? path.join(relativePath, entry.name)
+        : entry.name;
+
+      if (entry.isDirectory) {
+        return readAggregate(entryAbsolute, entryRelative, filter);
+      }
+      if (entry.link) {
+        return null;
+      }
+      const stats = await limitFileSystem(() => fs.stat(entryAbsolute));
+      return toFileNode(entryRelative, stats);
+    })
+  );
+
+  const aggregate = emptyAggregate();
+  totals.forEach((total) => {
+    if (!total) return;
+    if ('type' in total) {
+      addFileToAggregate(aggregate, total);
+    } else {
+      addFolderToAggregate(aggregate, total);
+    }
+  });
+  return aggregate;
+}
+
+async function toSortFields(
+  entry: TreeEntry,
+  absolutePath: string,
+  order: SortOrder
+): Promise<SortFields> {
+  if (entry.isDirectory) {
+    return { type: 'folder', name: entry.name };
+  }
+  if (entry.link) {
+    return { type: 'symlink', name: entry.name };
+  }
+
+  const fields: SortFields = {
+    type: 'file',
+    name: entry.name,
+    extension: extractExtension(entry.name),
+  };
+  if (needsFileStats(order)) {
+    const stats = await fs.stat(path.join(absolutePath, entry.name));
+    fields.sizeInBytes = stats.size;
+    fields.modifiedAt = stats.mtime.toISOString();
+  }
+  return fields;
+}
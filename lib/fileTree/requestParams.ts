@@ -0,0 +1,79 @@
+import type { SortOrder } from '../../types/fileTree';
+import { BadRequestError } from './errors';
+import {
+  DEFAULT_SORT_ORDER,
+  isSortDirection,
+  isSortKey,
+  SORT_KEYS,
+} from './sortOrder';
+
+/** Parses an optional integer query parameter, rejecting anything outside `[min, max]`. */
+export function parseIntegerParam(
+  value: string | null,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  if (value === null || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new BadRequestError(
+      `Invalid ${name}: expected an integer between ${min} and ${max}.`
+    );
+  }
+
+  return parsed;
+}
+
+/** Parses an optional boolean query parameter given as `1`/`0` or `true`/`false`. */
+export function parseBooleanParam(
+  value: string | null,
+  name: string,
+  fallback: boolean
+): boolean {
+  if (value === null || value === '') {
+    return fallback;
+  }
+  if (value === '1' || value === 'true') {
+    return true;
+  }
+  if (value === '0' || value === 'false') {
+    return false;
+  }
+
+  throw new BadRequestError(`Invalid ${name}: expected true or false.`);
+}
+
+/**
+ * Reads the `sort`, `order` and `foldersFirst` query parameters. Each one that is missing
+ * keeps its default: by name, ascending, folders first.
+ */
+export function sortOrderFromSearchParams(
+  searchParams: URLSearchParams
+): SortOrder {
+  const key = searchParams.get('sort') || DEFAULT_SORT_ORDER.key;
+  if (!isSortKey(key)) {
+    throw new BadRequestError(
+      `Invalid sort: expected one of ${SORT_KEYS.join(', ')}.`
+    );
+  }
+
+  const direction = searchParams.get('order') || DEFAULT_SORT_ORDER.direction;
+  if (!isSortDirection(direction)) {
+    throw new BadRequestError('Invalid order: expected asc or desc.');
+  }
+
+  return {
+    key,
+    direction,
+    foldersFirst: parseBooleanParam(
+      searchParams.get('foldersFirst'),
+      'foldersFirst',
+      DEFAULT_SORT_ORDER.foldersFirst
+    ),
+  };
+}
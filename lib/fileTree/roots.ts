@@ -0,0 +1,294 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { TreeRootSummary } from '../../types/fileTree';
+import { NotFoundError } from './errors';
+import {
+  FIXTURE_PROFILES,
+  generateFixtureTree,
+  isFixtureProfileName,
+} from './fixtures';
+import type { FixtureProfileName } from './fixtures';
+import { fromTreePath } from './treePaths';
+
+const execFileAsync = promisify(execFile);
+
+const CONFIG_PATH = path.join(process.cwd(), 'file-explorer.config.json');
+const SCRIPT_PATH = path.join(process.cwd(), 'scripts', 'create-file-tree.sh');
+const DEMO_ROOT_DIRECTORY = path.join(
+  process.cwd(),
+  'tmp',
+  'runtime-file-tree'
+);
+const DEMO_ROOT_ID = 'demo';
+
+export type TreeRoot = Omit<TreeRootSummary, 'isGitRepository'> & {
+  directory: string;
+  /** Demo roots are generated by the fixture script instead of pointing at real files. */
+  demo: boolean;
+  /**
+   * Generates the demo root from this profile (see `FIXTURE_PROFILES`) instead of the
+   * fixture script's fixed layout.
+   */
+  demoProfile: FixtureProfileName | null;
+  /** `.gitignore`-style globs; see `TreeFilter` for how they are applied. */
+  include: string[];
+  exclude: string[];
+  /** List links to folders inside the root as folders; see `inspectLink`. */
+  followSymlinks: boolean;
+};
+
+type RootOptions = {
+  include?: string[];
+  exclude?: string[];
+  followSymlinks?: boolean;
+};
+
+type ConfigFile = RootOptions & {
+  roots?: (RootOptions & { id: string; label?: string; path: string })[];
+  /** `true` for the fixture script's layout, or the name of a fixture profile. */
+  demo?: boolean | string;
+};
+
+let rootsPromise: Promise<TreeRoot[]> | null = null;
+let demoTreePromise: Promise<void> | null = null;
+
+/**
+ * Roots come from `file-explorer.config.json` in the project directory and from the
+ * `FILE_EXPLORER_ROOTS` environment variable (`id=/some/dir;other=/another/dir`).
+ * Setting `FILE_EXPLORER_DEMO=1`, or `"demo": true` in the config file, adds the
+ * generated demo tree as an extra root; a profile name instead of `1` or `true`
+ * generates it from that fixture profile. Configuration is read once per server
+ * process.
+ *
+ * Top-level `include`/`exclude` glob lists in the config file apply to every root;
+ * lists on a root entry are added to them. `followSymlinks` works the same way, except
+ * that a value on a root entry replaces the top-level one.
+ */
+export function getRoots(): Promise<TreeRoot[]> {
+  if (!rootsPromise) {
+    rootsPromise = loadRoots().catch((error) => {
+      rootsPromise = null;
+      throw error;
+    });
+  }
+  return rootsPromise;
+}
+
+/** Looks up a root by id, falling back to the first configured root. */
+export async function resolveRoot(rootId: string | null): Promise<TreeRoot> {
+  const roots = await getRoots();
+
+  if (roots.length === 0) {
+    throw new NotFoundError(
+      'No roots configured. Add file-explorer.config.json, set FILE_EXPLORER_ROOTS, or run with FILE_EXPLORER_DEMO=1.'
+    );
+  }
+
+  if (!rootId) {
+    return roots[0];
+  }
+
+  const root = roots.find((candidate) => candidate.id === rootId);
+  if (!root) {
+    throw new NotFoundError(`Unknown root: ${rootId}`);
+  }
+  return root;
+}
+
+/** Resolves a tree path such as `root/src/index.ts` to an absolute path inside `root`. */
+export function resolveTreePath(root: TreeRoot, treePath: string): string {
+  return path.join(root.directory, fromTreePath(treePath));
+}
+
+/**
+ * Generates the demo tree the first time it is needed. Real roots are never touched.
+ */
+export async function ensureTreeOnDisk(root: TreeRoot) {
+  if (!root.demo) {
+    return;
+  }
+
+  if (!demoTreePromise) {
+    demoTreePromise = (async () => {
+      await fs.mkdir(path.dirname(root.directory), { recursive: true });
+      if (root.demoProfile) {
+        // The demo directory is ours, and may hold a tree from the shell script.
+        await generateFixtureTree(
+          root.directory,
+          FIXTURE_PROFILES[root.demoProfile],
+          { force: true }
+        );
+      } else {
+        await execFileAsync(SCRIPT_PATH, [root.directory]);
+      }
+    })().catch((error) => {
+      demoTreePromise = null;
+      throw error;
+    });
+  }
+
+  await demoTreePromise;
+}
+
+async function loadRoots(): Promise<TreeRoot[]> {
+  const config = await readConfigFile();
+  const defaults = {
+    include: readGlobList(config.include, 'include'),
+    exclude: readGlobList(config.exclude, 'exclude'),
+    followSymlinks: readFlag(config.followSymlinks, 'followSymlinks', false),
+  };
+  const roots: TreeRoot[] = [];
+
+  for (const entry of config.roots ?? []) {
+    roots.push(
+      toRoot(entry.id, entry.label, entry.path, 'config file', {
+        include: [
+          ...defaults.include,
+          ...readGlobList(entry.include, `${entry.id}.include`),
+        ],
+        exclude: [
+          ...defaults.exclude,
+          ...readGlobList(entry.exclude, `${entry.id}.exclude`),
+        ],
+        followSymlinks: readFlag(
+          entry.followSymlinks,
+          `${entry.id}.followSymlinks`,
+          defaults.followSymlinks
+        ),
+      })
+    );
+  }
+
+  for (const entry of parseEnvRoots(process.env.FILE_EXPLORER_ROOTS)) {
+    roots.push(
+      toRoot(entry.id, undefined, entry.path, 'FILE_EXPLORER_ROOTS', defaults)
+    );
+  }
+
+  const demo = readDemoSetting(config.demo, process.env.FILE_EXPLORER_DEMO);
+  if (demo) {
+    roots.push({
+      id: DEMO_ROOT_ID,
+      label: 'generated-tree',
+      directory: DEMO_ROOT_DIRECTORY,
+      demo: true,
+      demoProfile: demo === true ? null : demo,
+      ...defaults,
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const root of roots) {
+    if (seen.has(root.id)) {
+      throw new Error(`Duplicate root id: ${root.id}`);
+    }
+    seen.add(root.id);
+  }
+
+  return roots;
+}
+
+async function readConfigFile(): Promise<ConfigFile> {
+  try {
+    return JSON.parse(await fs.readFile(CONFIG_PATH, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Failed to read ${CONFIG_PATH}: ${String(error)}`);
+  }
+}
+
+function parseEnvRoots(value: string | undefined) {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(
+          `Invalid FILE_EXPLORER_ROOTS entry "${entry}", expected id=/path/to/dir.`
+        );
+      }
+      return {
+        id: entry.slice(0, separator).trim(),
+        path: entry.slice(separator + 1).trim(),
+      };
+    });
+}
+
+/**
+ * Whether to add the demo root, and from which fixture profile. The environment
+ * variable wins over the config file; `1`/`true` mean the fixture script's layout.
+ */
+function readDemoSetting(
+  configValue: unknown,
+  envValue: string | undefined
+): FixtureProfileName | boolean {
+  const value = envValue || configValue;
+  if (value === undefined || value === false || value === '0') {
+    return false;
+  }
+  if (value === true || value === '1' || value === 'true') {
+    return true;
+  }
+  if (typeof value === 'string' && isFixtureProfileName(value)) {
+    return value;
+  }
+  throw new Error(
+    `Unknown demo profile "${String(value)}", expected one of: ${Object.keys(
+      FIXTURE_PROFILES
+    ).join(', ')}.`
+  );
+}
+
+function readGlobList(value: unknown, name: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((glob) => typeof glob !== 'string')) {
+    throw new Error(`Expected "${name}" in ${CONFIG_PATH} to be a list of globs.`);
+  }
+  return value;
+}
+
+function readFlag(value: unknown, name: string, fallback: boolean): boolean {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'boolean') {
+    throw new Error(`Expected "${name}" in ${CONFIG_PATH} to be true or false.`);
+  }
+  return value;
+}
+
+function toRoot(
+  id: string,
+  label: string | undefined,
+  directory: string,
+  source: string,
+  options: Required<RootOptions>
+): TreeRoot {
+  if (!id || !/^[\w.-]+$/.test(id)) {
+    throw new Error(`Invalid root id "${id}" in ${source}.`);
+  }
+  if (!directory) {
+    throw new Error(`Root "${id}" in ${source} has no path.`);
+  }
+
+  return {
+    id,
+    label: label ?? id,
+    directory: path.resolve(process.cwd(), directory),
+    demo: false,
+    demoProfile: null,
+    ...options,
+  };
+}
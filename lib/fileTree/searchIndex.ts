@@ -0,0 +1,352 @@
+import path from 'node:path';
+import type {
+  SearchResult,
+  TextRange,
+  TreeNode,
+  TreePatch,
+} from '../../types/fileTree';
+import { readVisibleEntries } from './readTree';
+import type { TreeRoot } from './roots';
+import { createTreeFilter } from './treeFilter';
+import type { TreeFilter } from './treeFilter';
+import { readTreeIndex } from './treeIndex';
+import {
+  fromTreePath,
+  isSameOrAncestorTreePath,
+  ROOT_KEY,
+  toTreePath,
+} from './treePaths';
+
+type SearchEntry = {
+  path: string;
+  name: string;
+  type: TreeNode['type'];
+  ignored: boolean;
+};
+
+type SearchIndex = Map<string, SearchEntry>;
+
+type IndexState = {
+  index: Promise<SearchIndex>;
+  /** Number of watchers keeping this index current. */
+  watchers: number;
+};
+
+const indexes = new Map<string, IndexState>();
+
+/**
+ * In-memory index of every path under a root, used by /api/file-tree/search.
+ *
+ * An index is only cached while the watch route is watching its root, because that is
+ * what keeps it current: the watcher calls `retainSearchIndex` when it starts, feeds
+ * every batch of patches to `applyPatchesToSearchIndex`, and calls `releaseSearchIndex`
+ * when its last client leaves. Searches against an unwatched root read the tree index,
+ * which scans the disk unless it was scanned moments ago.
+ *
+ * Like watchers, indexes are kept separately with and without hidden entries.
+ */
+export async function searchPaths(
+  root: TreeRoot,
+  showHidden: boolean,
+  query: string,
+  limit: number
+): Promise<SearchResult[]> {
+  const state = indexes.get(indexKey(root, showHidden));
+  const index = state
+    ? await state.index
+    : await buildIndex(root, showHidden);
+
+  const results: SearchResult[] = [];
+  index.forEach((entry) => {
+    const result = scoreEntry(entry, query);
+    if (result) {
+      results.push(result);
+    }
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.length - b.path.length)
+    .slice(0, limit);
+}
+
+export function retainSearchIndex(root: TreeRoot, showHidden: boolean) {
+  const key = indexKey(root, showHidden);
+  const state = indexes.get(key);
+  if (state) {
+    state.watchers++;
+    return;
+  }
+
+  const index = buildIndex(root, showHidden);
+  // A failed build is retried by the next search instead of being cached.
+  index.catch(() => indexes.delete(key));
+  indexes.set(key, { index, watchers: 1 });
+}
+
+export function releaseSearchIndex(root: TreeRoot, showHidden: boolean) {
+  const key = indexKey(root, showHidden);
+  const state = indexes.get(key);
+  if (state && --state.watchers <= 0) {
+    indexes.delete(key);
+  }
+}
+
+export async function applyPatchesToSearchIndex(
+  root: TreeRoot,
+  showHidden: boolean,
+  patches: TreePatch[]
+) {
+  const state = indexes.get(indexKey(root, showHidden));
+  if (!state) return;
+
+  const index = await state.index;
+  const filter = createTreeFilter(root, showHidden);
+
+  for (const patch of patches) {
+    switch (patch.op) {
+      case 'removed':
+        removeSubtree(index, patch.path);
+        break;
+      case 'renamed':
+        renameSubtree(index, patch.from, patch.path);
+        break;
+      case 'added':
+        // Patches only carry the top-most added node, so read what is inside it.
+        index.set(patch.path, toEntry(patch.path, patch.node));
+        if (patch.node.type === 'folder') {
+          await indexDirectory(
+            path.join(root.directory, fromTreePath(patch.path)),
+            fromTreePath(patch.path),
+            filter,
+            index
+          );
+        }
+        break;
+      case 'metadata-changed':
+        // Also sent for the root and for folders whose totals changed; only entries
+        // already in the index need their flags refreshed.
+        if (index.has(patch.path)) {
+          index.set(patch.path, toEntry(patch.path, patch.node));
+        }
+        break;
+    }
+  }
+}
+
+function indexKey(root: TreeRoot, showHidden: boolean): string {
+  return showHidden ? `${root.id}:all` : root.id;
+}
+
+/** Built from the shared tree index, so a watched root is only scanned once. */
+async function buildIndex(
+  root: TreeRoot,
+  showHidden: boolean
+): Promise<SearchIndex> {
+  const treeIndex = await readTreeIndex(root, showHidden);
+  const index: SearchIndex = new Map();
+  treeIndex.forEach(({ node }, treePath) => {
+    if (treePath !== ROOT_KEY) {
+      index.set(treePath, toEntry(treePath, node));
+    }
+  });
+  return index;
+}
+
+async function indexDirectory(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter,
+  index: SearchIndex
+) {
+  const entries = await readVisibleEntries(absolutePath, relativePath, filter);
+
+  for (const entry of entries) {
+    const entryRelative = relativePath
+      ? path.join(relativePath, entry.name)
+      : entry.name;
+    const treePath = toTreePath(entryRelative);
+    const type = entry.isDirectory
+      ? 'folder'
+      : entry.link
+      ? 'symlink'
+      : 'file';
+    index.set(treePath, toEntry(treePath, { type, ignored: entry.ignored }));
+
+    if (entry.isDirectory) {
+      await indexDirectory(
+        path.join(absolutePath, entry.name),
+        entryRelative,
+        filter,
+        index
+      );
+    }
+  }
+}
+
+function toEntry(
+  treePath: string,
+  { type, ignored }: { type: TreeNode['type']; ignored?: boolean }
+): SearchEntry {
+  return {
+    path: treePath,
+    name: path.posix.basename(treePath),
+    type,
+    ignored: Boolean(ignored),
+  };
+}
+
+function removeSubtree(index: SearchIndex, treePath: string) {
+  Array.from(index.keys()).forEach((key) => {
+    if (isSameOrAncestorTreePath(treePath, key)) {
+      index.delete(key);
+    }
+  });
+}
+
+function renameSubtree(index: SearchIndex, from: string, to: string) {
+  const moved: SearchEntry[] = [];
+  index.forEach((entry, key) => {
+    if (isSameOrAncestorTreePath(from, key)) {
+      moved.push(entry);
+    }
+  });
+
+  moved.forEach((entry) => {
+    index.delete(entry.path);
+    const nextPath = `${to}${entry.path.slice(from.length)}`;
+    index.set(nextPath, toEntry(nextPath, entry));
+  });
+}
+
+/**
+ * Scores an entry against the query on both its name and its full path. Name matches
+ * weigh more, so `index` ranks `src/index.ts` above `src/indexing/util.ts`.
+ */
+function scoreEntry(entry: SearchEntry, query: string): SearchResult | null {
+  // The `root/` prefix is shared by every path and would only add noise.
+  const pathOffset = ROOT_KEY.length + 1;
+  const pathMatch = fuzzyMatch(query, entry.path.slice(pathOffset));
+  if (!pathMatch) {
+    return null;
+  }
+
+  const nameMatch = fuzzyMatch(query, entry.name);
+  const score = nameMatch
+    ? Math.max(nameMatch.score * 2, pathMatch.score)
+    : pathMatch.score;
+
+  return {
+    path: entry.path,
+    name: entry.name,
+    type: entry.type,
+    ...(entry.ignored && { ignored: true }),
+    score,
+    nameRanges: nameMatch?.ranges ?? [],
+    pathRanges: pathMatch.ranges.map(([start, end]): TextRange => [
+      start + pathOffset,
+      end + pathOffset,
+    ]),
+  };
+}
+
+const SCORE_MATCH = 16;
+const BONUS_CONSECUTIVE = 12;
+const BONUS_BOUNDARY = 10;
+const PENALTY_GAP = 1;
+
+/**
+ * Subsequence matching in the spirit of fzf: find the shortest window of `text` that
+ * contains the query characters in order, then reward matches that are consecutive or
+ * start a word and penalise gaps. Ranges are half-open `[start, end)` offsets.
+ */
+export function fuzzyMatch(
+  query: string,
+  text: string
+): { score: number; ranges: TextRange[] } | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) {
+    return null;
+  }
+
+  // Forward pass: where does the earliest complete match end?
+  let queryIndex = 0;
+  let end = -1;
+  for (let i = 0; i < haystack.length; i++) {
+    if (haystack[i] === needle[queryIndex]) {
+      queryIndex++;
+      if (queryIndex === needle.length) {
+        end = i;
+        break;
+      }
+    }
+  }
+  if (end === -1) {
+    return null;
+  }
+
+  // Backward pass: tighten the window from the right.
+  queryIndex = needle.length - 1;
+  let start = end;
+  for (let i = end; i >= 0; i--) {
+    if (haystack[i] === needle[queryIndex]) {
+      queryIndex--;
+      if (queryIndex < 0) {
+        start = i;
+        break;
+      }
+    }
+  }
+
+  const positions: number[] = [];
+  queryIndex = 0;
+  for (let i = start; i <= end && queryIndex < needle.length; i++) {
+    if (haystack[i] === needle[queryIndex]) {
+      positions.push(i);
+      queryIndex++;
+    }
+  }
+
+  let score = 0;
+  positions.forEach((position, index) => {
+    score += SCORE_MATCH;
+    if (isWordBoundary(text, position)) {
+      score += BONUS_BOUNDARY;
+    }
+    if (index > 0) {
+      const gap = position - positions[index - 1] - 1;
+      score += gap === 0 ? BONUS_CONSECUTIVE : -gap * PENALTY_GAP;
+    }
+  });
+
+  return { score, ranges: toRanges(positions) };
+}
+
+function isWordBoundary(text: string, position: number): boolean {
+  if (position === 0) {
+    return true;
+  }
+
+  const previous = text[position - 1];
+  const current = text[position];
+  return (
+    '/_-. '.includes(previous) ||
+    (previous === previous.toLowerCase() &&
+      current !== current.toLowerCase())
+  );
+}
+
+function toRanges(positions: number[]): TextRange[] {
+  const ranges: TextRange[] = [];
+
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === position) {
+      last[1] = position + 1;
+    } else {
+      ranges.push([position, position + 1]);
+    }
+  }
+
+  return ranges;
+}
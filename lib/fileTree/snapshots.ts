@@ -0,0 +1,415 @@
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import type {
+  SnapshotChange,
+  SnapshotSummary,
+  TreeNode,
+} from '../../types/fileTree';
+import {
+  BadRequestError,
+  ConflictError,
+  isNotFoundError,
+  NotFoundError,
+} from './errors';
+import { limitFileSystem } from './concurrency';
+import { readVisibleEntries } from './readTree';
+import { ensureTreeOnDisk, resolveTreePath } from './roots';
+import type { TreeRoot } from './roots';
+import { createTreeFilter } from './treeFilter';
+import type { TreeFilter } from './treeFilter';
+import { readTreeIndex } from './treeIndex';
+import { isSameOrAncestorTreePath, ROOT_KEY, toTreePath } from './treePaths';
+
+const SNAPSHOT_DIRECTORY =
+  process.env.FILE_EXPLORER_SNAPSHOTS ??
+  path.join(process.cwd(), 'tmp', 'snapshots');
+const SNAPSHOT_NAME_PATTERN = /^[\w-][\w.-]{0,63}$/;
+
+type SnapshotEntry = {
+  type: TreeNode['type'];
+  size?: number;
+  modifiedAt?: string;
+  /** SHA-1 of a file's contents, when the snapshot was taken with hashing. */
+  hash?: string;
+  target?: string;
+};
+
+type Snapshot = SnapshotSummary & {
+  rootId: string;
+  /** Keyed by tree path; the root folder itself is not included. */
+  entries: Record<string, SnapshotEntry>;
+};
+
+/**
+ * Named snapshots of a root, for comparing it with how it was earlier without relying
+ * on git. Each one is a JSON file under `tmp/snapshots/<root id>/` (or the directory
+ * in `FILE_EXPLORER_SNAPSHOTS`) recording every entry the filter lists, with each
+ * file's size and modification time and, if asked for, a hash of its contents.
+ */
+export async function listSnapshots(root: TreeRoot): Promise<SnapshotSummary[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(rootDirectory(root));
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const snapshots = await Promise.all(
+    names
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => name.slice(0, -'.json'.length))
+      .filter((name) => SNAPSHOT_NAME_PATTERN.test(name))
+      .map((name) => readSnapshot(root, name))
+  );
+  return snapshots
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createSnapshot(
+  root: TreeRoot,
+  name: string,
+  showHidden: boolean,
+  hashed: boolean
+): Promise<SnapshotSummary> {
+  assertValidName(name);
+  const snapshot = await captureTree(root, name, showHidden, hashed);
+
+  await fs.mkdir(rootDirectory(root), { recursive: true });
+  try {
+    await fs.writeFile(snapshotPath(root, name), JSON.stringify(snapshot), {
+      flag: 'wx',
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') {
+      throw new ConflictError(`A snapshot named ${name} already exists.`);
+    }
+    throw error;
+  }
+
+  return toSummary(snapshot);
+}
+
+export async function deleteSnapshot(root: TreeRoot, name: string) {
+  assertValidName(name);
+  try {
+    await fs.unlink(snapshotPath(root, name));
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      throw new NotFoundError(`No snapshot named ${name}.`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The changes from snapshot `fromName` to snapshot `toName`, or to the tree as it is
+ * now when `toName` is null, limited to `treePath` and everything under it. The live
+ * tree is taken from the tree index kept with the snapshot's own filter, and hashed if
+ * the snapshot was, so the two sides list the same kinds of entries.
+ */
+export async function compareSnapshots(
+  root: TreeRoot,
+  fromName: string,
+  toName: string | null,
+  treePath: string
+): Promise<SnapshotChange[]> {
+  const from = await readSnapshot(root, fromName);
+  const to = toName
+    ? await readSnapshot(root, toName)
+    : await captureFromIndex(root, from);
+
+  return diffEntries(from.entries, to.entries).filter(
+    (change) =>
+      isSameOrAncestorTreePath(treePath, change.path) ||
+      (change.from !== undefined &&
+        isSameOrAncestorTreePath(treePath, change.from))
+  );
+}
+
+async function captureTree(
+  root: TreeRoot,
+  name: string,
+  showHidden: boolean,
+  hashed: boolean
+): Promise<Snapshot> {
+  await ensureTreeOnDisk(root);
+  const entries: Record<string, SnapshotEntry> = {};
+  await captureDirectory(
+    root.directory,
+    '',
+    createTreeFilter(root, showHidden),
+    hashed,
+    entries
+  );
+
+  return {
+    name,
+    rootId: root.id,
+    createdAt: new Date().toISOString(),
+    entryCount: Object.keys(entries).length,
+    hashed,
+    showHidden,
+    entries,
+  };
+}
+
+/**
+ * The live tree as snapshot entries, read from the shared tree index rather than the
+ * disk, since the explorer compares again after every batch of changes. Only files whose
+ * size or modification time differ from `previous` are hashed; the others keep the hash
+ * recorded there, as an unchanged file would hash the same.
+ */
+async function captureFromIndex(
+  root: TreeRoot,
+  previous: Snapshot
+): Promise<Snapshot> {
+  const index = await readTreeIndex(root, previous.showHidden);
+  const entries: Record<string, SnapshotEntry> = {};
+  const unhashed: string[] = [];
+
+  index.forEach(({ node }, treePath) => {
+    if (treePath === ROOT_KEY) return;
+
+    if (node.type === 'folder') {
+      entries[treePath] = { type: 'folder' };
+    } else if (node.type === 'symlink') {
+      entries[treePath] = { type: 'symlink', target: node.target };
+    } else {
+      const entry: SnapshotEntry = {
+        type: 'file',
+        size: node.sizeInBytes,
+        modifiedAt: node.modifiedAt,
+      };
+      const recorded = previous.entries[treePath];
+      if (
+        previous.hashed &&
+        recorded?.type === 'file' &&
+        recorded.hash &&
+        recorded.size === entry.size &&
+        recorded.modifiedAt === entry.modifiedAt
+      ) {
+        entry.hash = recorded.hash;
+      } else if (previous.hashed) {
+        unhashed.push(treePath);
+      }
+      entries[treePath] = entry;
+    }
+  });
+
+  await Promise.all(
+    unhashed.map(async (treePath) => {
+      try {
+        entries[treePath].hash = await limitFileSystem(() =>
+          hashFile(resolveTreePath(root, treePath))
+        );
+      } catch (error) {
+        // Removed since the index was updated; its size and date still compare.
+        if (!isNotFoundError(error)) throw error;
+      }
+    })
+  );
+
+  return {
+    name: '',
+    rootId: root.id,
+    createdAt: new Date().toISOString(),
+    entryCount: index.size - 1,
+    hashed: previous.hashed,
+    showHidden: previous.showHidden,
+    entries,
+  };
+}
+
+async function captureDirectory(
+  absolutePath: string,
+  relativePath: string,
+  filter: TreeFilter,
+  hashed: boolean,
+  entries: Record<string, SnapshotEntry>
+) {
+  const visible = await readVisibleEntries(absolutePath, relativePath, filter);
+
+  for (const entry of visible) {
+    const entryAbsolute = path.join(absolutePath, entry.name);
+    const entryRelative = relativePath
+      ? path.join(relativePath, entry.name)
+      : entry.name;
+    const treePath = toTreePath(entryRelative);
+
+    if (entry.isDirectory) {
+      entries[treePath] = { type: 'folder' };
+      await captureDirectory(
+        entryAbsolute,
+        entryRelative,
+        filter,
+        hashed,
+        entries
+      );
+    } else if (entry.link) {
+      entries[treePath] = { type: 'symlink', target: entry.link.target };
+    } else {
+      const stats = await fs.stat(entryAbsolute);
+      entries[treePath] = {
+        type: 'file',
+        size: stats.size,
+        modifiedAt: stats.mtime.toISOString(),
+        ...(hashed ? { hash: await hashFile(entryAbsolute) } : {}),
+      };
+    }
+  }
+}
+
+function hashFile(absolutePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha1');
+    createReadStream(absolutePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Pairs up removed and added files with the same hash as moves, when the hash is
+ * unique on both sides. What is left is reported only for the top-most path, since a
+ * removed or added folder implies its contents.
+ */
+function diffEntries(
+  previous: Record<string, SnapshotEntry>,
+  next: Record<string, SnapshotEntry>
+): SnapshotChange[] {
+  const removed: string[] = [];
+  const added: string[] = [];
+  const changes: SnapshotChange[] = [];
+
+  Object.keys(previous).forEach((treePath) => {
+    const entry = previous[treePath];
+    const nextEntry = next[treePath];
+    if (!nextEntry || nextEntry.type !== entry.type) {
+      removed.push(treePath);
+    } else if (isModified(entry, nextEntry)) {
+      changes.push({ kind: 'modified', path: treePath, type: entry.type });
+    }
+  });
+  Object.keys(next).forEach((treePath) => {
+    const previousEntry = previous[treePath];
+    if (!previousEntry || previousEntry.type !== next[treePath].type) {
+      added.push(treePath);
+    }
+  });
+
+  const removedByHash = groupByHash(removed, previous);
+  const addedByHash = groupByHash(added, next);
+  const movedFrom = new Set<string>();
+  const movedTo = new Set<string>();
+  removedByHash.forEach((fromPaths, hash) => {
+    const toPaths = addedByHash.get(hash);
+    if (fromPaths.length !== 1 || !toPaths || toPaths.length !== 1) {
+      return;
+    }
+
+    movedFrom.add(fromPaths[0]);
+    movedTo.add(toPaths[0]);
+    changes.push({
+      kind: 'moved',
+      path: toPaths[0],
+      from: fromPaths[0],
+      type: 'file',
+    });
+  });
+
+  keepTopMost(removed.filter((treePath) => !movedFrom.has(treePath))).forEach(
+    (treePath) =>
+      changes.push({
+        kind: 'removed',
+        path: treePath,
+        type: previous[treePath].type,
+      })
+  );
+  keepTopMost(added.filter((treePath) => !movedTo.has(treePath))).forEach(
+    (treePath) =>
+      changes.push({ kind: 'added', path: treePath, type: next[treePath].type })
+  );
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function isModified(previous: SnapshotEntry, next: SnapshotEntry): boolean {
+  if (previous.type === 'symlink') {
+    return previous.target !== next.target;
+  }
+  if (previous.type !== 'file') {
+    return false;
+  }
+  if (previous.hash && next.hash) {
+    return previous.hash !== next.hash;
+  }
+  return (
+    previous.size !== next.size || previous.modifiedAt !== next.modifiedAt
+  );
+}
+
+function groupByHash(
+  paths: string[],
+  entries: Record<string, SnapshotEntry>
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  paths.forEach((treePath) => {
+    const { hash } = entries[treePath];
+    if (hash) {
+      groups.set(hash, [...(groups.get(hash) ?? []), treePath]);
+    }
+  });
+  return groups;
+}
+
+function keepTopMost(paths: string[]): string[] {
+  const pathSet = new Set(paths);
+  return paths.filter((treePath) => {
+    const parentPath = treePath.slice(0, treePath.lastIndexOf('/'));
+    return !pathSet.has(parentPath);
+  });
+}
+
+async function readSnapshot(root: TreeRoot, name: string): Promise<Snapshot> {
+  assertValidName(name);
+  try {
+    return JSON.parse(await fs.readFile(snapshotPath(root, name), 'utf8'));
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      throw new NotFoundError(`No snapshot named ${name}.`);
+    }
+    throw error;
+  }
+}
+
+function toSummary({
+  name,
+  createdAt,
+  entryCount,
+  hashed,
+  showHidden,
+}: Snapshot): SnapshotSummary {
+  return { name, createdAt, entryCount, hashed, showHidden };
+}
+
+function assertValidName(name: unknown): asserts name is string {
+  if (typeof name !== 'string' || !SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new BadRequestError(
+      'Invalid snapshot name: use up to 64 letters, digits, dots, dashes and underscores.'
+    );
+  }
+}
+
+function rootDirectory(root: TreeRoot): string {
+  return path.join(SNAPSHOT_DIRECTORY, encodeURIComponent(root.id));
+}
+
+function snapshotPath(root: TreeRoot, name: string): string {
+  return path.join(rootDirectory(root), `${name}.json`);
+}
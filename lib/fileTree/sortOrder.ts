@@ -0,0 +1,91 @@
+import type {
+  SortDirection,
+  SortKey,
+  SortOrder,
+  TreeNode,
+} from '../../types/fileTree';
+
+/**
+ * The one comparator behind every listing: the API sorts with it before paginating, and
+ * the explorer uses it to re-sort loaded folders and to place entries from patches. It
+ * is shared with the client, so it must not import anything from Node.
+ */
+
+export const SORT_KEYS: SortKey[] = ['name', 'size', 'modified', 'extension'];
+
+export const DEFAULT_SORT_ORDER: SortOrder = {
+  key: 'name',
+  direction: 'asc',
+  foldersFirst: true,
+};
+
+/**
+ * What the comparator reads from an entry. Folders and symlinks have no size, date or
+ * extension.
+ */
+export type SortFields = {
+  type: TreeNode['type'];
+  name: string;
+  extension?: string | null;
+  sizeInBytes?: number;
+  modifiedAt?: string;
+};
+
+// A fixed locale, so the server and every browser agree on where a page ends.
+const nameCollator = new Intl.Collator('en', {
+  numeric: true,
+  sensitivity: 'base',
+});
+
+export function isSortKey(value: string): value is SortKey {
+  return (SORT_KEYS as string[]).includes(value);
+}
+
+export function isSortDirection(value: string): value is SortDirection {
+  return value === 'asc' || value === 'desc';
+}
+
+/** Whether sorting by `order` needs the size or modification time of files. */
+export function needsFileStats(order: SortOrder): boolean {
+  return order.key === 'size' || order.key === 'modified';
+}
+
+/**
+ * Orders two entries by `order`. Ties on size, date or extension fall back to the name,
+ * so the result is total and stable across requests.
+ */
+export function compareBySortOrder(
+  a: SortFields,
+  b: SortFields,
+  order: SortOrder
+): number {
+  const aIsFolder = a.type === 'folder';
+  if (order.foldersFirst && aIsFolder !== (b.type === 'folder')) {
+    return aIsFolder ? -1 : 1;
+  }
+
+  const result = compareByKey(a, b, order.key) || compareNames(a.name, b.name);
+  return order.direction === 'desc' ? -result : result;
+}
+
+/** Natural order: `file2` before `file10`, case-insensitive, then by code point. */
+export function compareNames(a: string, b: string): number {
+  return nameCollator.compare(a, b) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+function compareByKey(a: SortFields, b: SortFields, key: SortKey): number {
+  switch (key) {
+    case 'name':
+      return 0;
+    case 'size':
+      return (a.sizeInBytes ?? -1) - (b.sizeInBytes ?? -1);
+    case 'modified': {
+      // ISO timestamps in the same format sort chronologically as strings.
+      const aTime = a.modifiedAt ?? '';
+      const bTime = b.modifiedAt ?? '';
+      return aTime < bTime ? -1 : aTime > bTime ? 1 : 0;
+    }
+    case 'extension':
+      return compareNames(a.extension ?? '', b.extension ?? '');
+  }
+}
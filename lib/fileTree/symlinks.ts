@@ -0,0 +1,184 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { SymlinkNode } from '../../types/fileTree';
+import { BadRequestError } from './errors';
+import type { TreeFilter } from './treeFilter';
+import { toTreePath } from './treePaths';
+
+/** What a symlink points to, as reported on `SymlinkNode`. */
+export type LinkInfo = Pick<
+  SymlinkNode,
+  'target' | 'targetType' | 'broken' | 'outsideRoot' | 'cycle'
+>;
+
+/** The real root directory and the identity of each folder walked, per filter. */
+type WalkState = {
+  realRoot: Promise<string>;
+  folderIds: Map<string, Promise<string>>;
+};
+
+const walkStates = new WeakMap<TreeFilter, WalkState>();
+
+/**
+ * Inspects the symlink `name` in the folder at `relativePath` and decides whether it is
+ * listed as a folder. That takes a link to a folder, a root with `followSymlinks` set,
+ * a target inside the root, and a target that is not the folder holding the link or any
+ * folder above it. Folders are compared by device and inode rather than by path, so a
+ * loop is caught however the links in it are spelled.
+ */
+export async function inspectLink(
+  filter: TreeFilter,
+  absolutePath: string,
+  relativePath: string,
+  name: string
+): Promise<{ link: LinkInfo; follow: boolean }> {
+  const linkPath = path.join(absolutePath, name);
+  const target = await fs.readlink(linkPath);
+
+  let stats;
+  let realTarget: string;
+  try {
+    stats = await fs.stat(linkPath);
+    realTarget = await fs.realpath(linkPath);
+  } catch {
+    const link = { target, targetType: null, broken: true, outsideRoot: false };
+    return { link, follow: false };
+  }
+
+  const realRoot = await walkStateFor(filter).realRoot;
+  const link: LinkInfo = {
+    target,
+    targetType: stats.isDirectory()
+      ? 'folder'
+      : stats.isFile()
+      ? 'file'
+      : 'other',
+    broken: false,
+    outsideRoot:
+      realTarget !== realRoot && !realTarget.startsWith(realRoot + path.sep),
+  };
+
+  if (
+    link.targetType !== 'folder' ||
+    !filter.followSymlinks ||
+    link.outsideRoot
+  ) {
+    return { link, follow: false };
+  }
+
+  const targetId = `${stats.dev}:${stats.ino}`;
+  const ancestorIds = await folderIdsAbove(filter, relativePath);
+  if (ancestorIds.includes(targetId)) {
+    return { link: { ...link, cycle: true }, follow: false };
+  }
+
+  return { link, follow: true };
+}
+
+/** Reads the target of `absolutePath` if it is a symlink, or null if it is not one. */
+export async function readLinkTarget(
+  absolutePath: string
+): Promise<string | null> {
+  const stats = await fs.lstat(absolutePath);
+  return stats.isSymbolicLink() ? fs.readlink(absolutePath) : null;
+}
+
+function walkStateFor(filter: TreeFilter): WalkState {
+  let state = walkStates.get(filter);
+  if (!state) {
+    state = {
+      realRoot: fs.realpath(filter.rootDirectory),
+      folderIds: new Map(),
+    };
+    walkStates.set(filter, state);
+  }
+  return state;
+}
+
+/** Identities of the folder at `relativePath` and every folder above it, up to the root. */
+function folderIdsAbove(
+  filter: TreeFilter,
+  relativePath: string
+): Promise<string[]> {
+  const folders = [''];
+  if (relativePath) {
+    const segments = relativePath.split(path.sep);
+    segments.forEach((_, index) =>
+      folders.push(path.join(...segments.slice(0, index + 1)))
+    );
+  }
+
+  return Promise.all(folders.map((folder) => folderId(filter, folder)));
+}
+
+function folderId(filter: TreeFilter, relativePath: string): Promise<string> {
+  const { folderIds } = walkStateFor(filter);
+  let id = folderIds.get(relativePath);
+  if (!id) {
+    // fs.stat follows links, so a followed link is identified by its target.
+    id = fs
+      .stat(path.join(filter.rootDirectory, relativePath))
+      .then((stats) => `${stats.dev}:${stats.ino}`);
+    folderIds.set(relativePath, id);
+  }
+  return id;
+}
+
+/**
+ * Rejects a request for a path that passes through a symlink the tree does not follow,
+ * so a folder outside the root, or one reached around a cycle, cannot be listed by
+ * asking for its path directly.
+ */
+export async function assertFollowedPath(
+  filter: TreeFilter,
+  relativePath: string
+) {
+  const segments = relativePath ? relativePath.split(path.sep) : [];
+
+  for (let index = 0; index < segments.length; index++) {
+    const parentRelative = segments.slice(0, index).join(path.sep);
+    const parentAbsolute = path.join(filter.rootDirectory, parentRelative);
+    const stats = await fs.lstat(path.join(parentAbsolute, segments[index]));
+    if (!stats.isSymbolicLink()) {
+      continue;
+    }
+
+    const { follow } = await inspectLink(
+      filter,
+      parentAbsolute,
+      parentRelative,
+      segments[index]
+    );
+    if (!follow) {
+      throw new BadRequestError(
+        `${toTreePath(
+          segments.slice(0, index + 1).join(path.sep)
+        )} is a symlink that is not followed.`
+      );
+    }
+  }
+}
+
+/**
+ * Rejects a request for a file that sits below a symlink the tree does not follow, or
+ * that is itself a link resolving outside the root, so the content of a file outside
+ * the root cannot be read by asking for its path. Links to files inside the root are
+ * fine: they are listed, and previewed as their target.
+ */
+export async function assertReadableFile(
+  filter: TreeFilter,
+  relativePath: string
+) {
+  const folder = path.dirname(relativePath);
+  await assertFollowedPath(filter, folder === '.' ? '' : folder);
+
+  const realRoot = await walkStateFor(filter).realRoot;
+  const realTarget = await fs.realpath(
+    path.join(filter.rootDirectory, relativePath)
+  );
+  if (realTarget !== realRoot && !realTarget.startsWith(realRoot + path.sep)) {
+    throw new BadRequestError(
+      `${toTreePath(relativePath)} is a symlink to a file outside the root.`
+    );
+  }
+}
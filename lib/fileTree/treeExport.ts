@@ -0,0 +1,257 @@
+// Serialisation only, without touching the disk, so the explorer can share the defaults.
+import type {
+  ExportColumn,
+  ExportFormat,
+  FolderNode,
+  TreeNode,
+} from '../../types/fileTree';
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'json',
+  'csv',
+  'markdown',
+  'tree',
+];
+
+export const EXPORT_COLUMNS: ExportColumn[] = ['extension', 'size', 'modified'];
+
+/** Exports read the whole subtree at once, so how deep they go is capped. */
+export const MAX_EXPORT_DEPTH = 32;
+
+/** CSV and JSON are for tools, so they get every column unless asked otherwise. */
+export function defaultExportColumns(format: ExportFormat): ExportColumn[] {
+  return format === 'csv' || format === 'json' ? EXPORT_COLUMNS : [];
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function isExportColumn(value: string): value is ExportColumn {
+  return (EXPORT_COLUMNS as string[]).includes(value);
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  tree: 'text/plain; charset=utf-8',
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+  tree: 'txt',
+};
+
+/**
+ * Serialises a folder that was read to the depth wanted. Folders past that depth were
+ * read unloaded and are written without contents, as `tree -L` does. Paths in the
+ * output are relative to `folder`; folders report their totals as size and date.
+ */
+export function exportTree(
+  folder: FolderNode,
+  format: ExportFormat,
+  columns: ExportColumn[]
+): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(toJsonNode(folder, columns), null, 2)}\n`;
+    case 'csv':
+      return toCsv(folder, columns);
+    case 'markdown':
+      return toMarkdown(folder, columns);
+    case 'tree':
+      return toAsciiTree(folder, columns);
+  }
+}
+
+type JsonNode = {
+  name: string;
+  type: TreeNode['type'];
+  extension?: string | null;
+  sizeInBytes?: number;
+  modifiedAt?: string | null;
+  target?: string;
+  children?: JsonNode[];
+};
+
+function toJsonNode(node: TreeNode, columns: ExportColumn[]): JsonNode {
+  const result: JsonNode = { name: node.name, type: node.type };
+  if (node.type === 'symlink') {
+    result.target = node.target;
+    return result;
+  }
+
+  const isFile = node.type === 'file';
+  if (isFile && columns.includes('extension')) {
+    result.extension = node.extension;
+  }
+  if (columns.includes('size')) {
+    result.sizeInBytes = isFile ? node.sizeInBytes : node.aggregate.totalBytes;
+  }
+  if (columns.includes('modified')) {
+    result.modifiedAt = isFile
+      ? node.modifiedAt
+      : node.aggregate.newestModifiedAt;
+  }
+  if (node.type === 'folder' && isLoaded(node)) {
+    result.children = node.children.map((child) =>
+      toJsonNode(child, columns)
+    );
+  }
+  return result;
+}
+
+const CSV_HEADERS: Record<ExportColumn, string> = {
+  extension: 'extension',
+  size: 'size',
+  modified: 'mtime',
+};
+
+function toCsv(folder: FolderNode, columns: ExportColumn[]): string {
+  const rows = [
+    ['path', 'type', ...columns.map((column) => CSV_HEADERS[column])],
+  ];
+
+  walk(folder, '', (node, relativePath) => {
+    const metadata = readMetadata(node);
+    rows.push([
+      relativePath,
+      node.type,
+      ...columns.map((column) => {
+        const value = metadata[column];
+        return value === null ? '' : String(value);
+      }),
+    ]);
+  });
+
+  // CRLF line endings, as RFC 4180 asks for.
+  return rows
+    .map((row) => `${row.map(escapeCsvField).join(',')}\r\n`)
+    .join('');
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toMarkdown(folder: FolderNode, columns: ExportColumn[]): string {
+  const lines = [`- ${describeNode(folder, columns, escapeMarkdown)}`];
+
+  const visit = (parent: FolderNode, depth: number) => {
+    parent.children.forEach((child) => {
+      lines.push(
+        `${'  '.repeat(depth)}- ${describeNode(child, columns, escapeMarkdown)}`
+      );
+      if (child.type === 'folder' && isLoaded(child)) {
+        visit(child, depth + 1);
+      }
+    });
+  };
+  if (isLoaded(folder)) {
+    visit(folder, 1);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+function toAsciiTree(folder: FolderNode, columns: ExportColumn[]): string {
+  const lines = [describeNode(folder, columns, (name) => name)];
+
+  const visit = (parent: FolderNode, prefix: string) => {
+    parent.children.forEach((child, index) => {
+      const isLast = index === parent.children.length - 1;
+      lines.push(
+        `${prefix}${isLast ? '└── ' : '├── '}${describeNode(
+          child,
+          columns,
+          (name) => name
+        )}`
+      );
+      if (child.type === 'folder' && isLoaded(child)) {
+        visit(child, `${prefix}${isLast ? '    ' : '│   '}`);
+      }
+    });
+  };
+  if (isLoaded(folder)) {
+    visit(folder, '');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** `name/`, `name -> target` for links, then the requested columns in brackets. */
+function describeNode(
+  node: TreeNode,
+  columns: ExportColumn[],
+  escape: (text: string) => string
+): string {
+  let label = escape(node.name);
+  if (node.type === 'folder') {
+    label += '/';
+  } else if (node.type === 'symlink') {
+    label += ` -> ${escape(node.target)}`;
+  }
+
+  const metadata = readMetadata(node);
+  const details = columns
+    .map((column) => {
+      const value = metadata[column];
+      if (value === null || (column === 'extension' && node.type !== 'file')) {
+        return null;
+      }
+      return column === 'size' ? `${value} B` : escape(String(value));
+    })
+    .filter((detail): detail is string => detail !== null);
+
+  return details.length > 0 ? `${label} [${details.join(', ')}]` : label;
+}
+
+function readMetadata(
+  node: TreeNode
+): Record<ExportColumn, string | number | null> {
+  switch (node.type) {
+    case 'file':
+      return {
+        extension: node.extension,
+        size: node.sizeInBytes,
+        modified: node.modifiedAt,
+      };
+    case 'folder':
+      return {
+        extension: null,
+        size: node.aggregate.totalBytes,
+        modified: node.aggregate.newestModifiedAt,
+      };
+    case 'symlink':
+      return { extension: null, size: null, modified: null };
+  }
+}
+
+/** Visits every node below `folder` in order, with its path relative to `folder`. */
+function walk(
+  folder: FolderNode,
+  relativePath: string,
+  visit: (node: TreeNode, relativePath: string) => void
+) {
+  folder.children.forEach((child) => {
+    const childPath = relativePath
+      ? `${relativePath}/${child.name}`
+      : child.name;
+    visit(child, childPath);
+    if (child.type === 'folder' && isLoaded(child)) {
+      walk(child, childPath, visit);
+    }
+  });
+}
+
+/** Folders past the depth limit come back with a cursor for a first page never read. */
+function isLoaded(folder: FolderNode): boolean {
+  return folder.nextCursor === null;
+}
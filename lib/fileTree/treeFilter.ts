@@ -0,0 +1,340 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { GitStatus } from '../../types/fileTree';
+import { parseBooleanParam } from './requestParams';
+import type { TreeRoot } from './roots';
+import type { LinkInfo } from './symlinks';
+
+/** Name of the ignore files honoured in every folder of a root. */
+export const IGNORE_FILE_NAME = '.gitignore';
+/** Never listed, even with `showHidden`: it is large, churns constantly and is git's own. */
+const ALWAYS_SKIPPED = new Set(['.git']);
+
+/** One line of an ignore file, or one configured glob. */
+type IgnoreRule = {
+  /** Folder the rule is relative to, relative to the root; '' for the root itself. */
+  baseDirectory: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+};
+
+/**
+ * Decides which entries of a root are ignored and whether they are listed at all.
+ *
+ * An entry is ignored when its name starts with a dot, when a `.gitignore` in its folder
+ * or any folder above it matches it, when it matches one of the root's `exclude` globs,
+ * or when it is a file that matches none of the root's `include` globs (if any are
+ * configured). Everything inside an ignored folder is ignored too. Ignored entries are
+ * dropped unless `showHidden` is set, in which case they are listed and flagged.
+ *
+ * A filter caches the ignore files it reads, so create one per request or per scan to
+ * pick up edits to them.
+ */
+export type TreeFilter = {
+  showHidden: boolean;
+  /** List links to folders inside the root as the folders they point to. */
+  followSymlinks: boolean;
+  rootDirectory: string;
+  include: IgnoreRule[];
+  exclude: IgnoreRule[];
+  ignoreFiles: Map<string, Promise<IgnoreRule[]>>;
+  ignoredFolders: Map<string, Promise<boolean>>;
+};
+
+/**
+ * A directory entry that passed the filter. `isDirectory` is true for folders and for
+ * followed links to folders; `link` is set on every symlink. `readVisibleEntries` adds
+ * the git status.
+ */
+export type TreeEntry = {
+  name: string;
+  isDirectory: boolean;
+  ignored: boolean;
+  link?: LinkInfo;
+  gitStatus?: GitStatus;
+};
+
+export function createTreeFilter(
+  root: TreeRoot,
+  showHidden: boolean
+): TreeFilter {
+  return {
+    showHidden,
+    followSymlinks: root.followSymlinks,
+    rootDirectory: root.directory,
+    include: root.include.flatMap((glob) => parseRule(glob, '') ?? []),
+    exclude: root.exclude.flatMap((glob) => parseRule(glob, '') ?? []),
+    ignoreFiles: new Map(),
+    ignoredFolders: new Map(),
+  };
+}
+
+/** Builds the filter for a request from its `showHidden` query parameter. */
+export function filterFromSearchParams(
+  root: TreeRoot,
+  searchParams: URLSearchParams
+): TreeFilter {
+  return createTreeFilter(
+    root,
+    parseBooleanParam(searchParams.get('showHidden'), 'showHidden', false)
+  );
+}
+
+/**
+ * Keeps the entries of the folder at `relativePath` that the filter lets through, each
+ * flagged with whether it is ignored.
+ */
+export async function filterEntries(
+  filter: TreeFilter,
+  relativePath: string,
+  candidates: Omit<TreeEntry, 'ignored'>[]
+): Promise<TreeEntry[]> {
+  const folderIgnored = await isIgnoredPath(filter, relativePath, true);
+  const rules = folderIgnored ? [] : await rulesFor(filter, relativePath);
+
+  const entries: TreeEntry[] = [];
+  for (const candidate of candidates) {
+    const { name, isDirectory } = candidate;
+    if (ALWAYS_SKIPPED.has(name)) continue;
+
+    const ignored =
+      folderIgnored ||
+      isIgnoredBy(
+        rules,
+        filter,
+        relativePath ? path.join(relativePath, name) : name,
+        isDirectory
+      );
+    if (ignored && !filter.showHidden) continue;
+
+    entries.push({ ...candidate, ignored });
+  }
+  return entries;
+}
+
+/**
+ * Matches root-relative, slash-separated paths against globs written like the root's
+ * `include` and `exclude` lists: a glob without a `/` matches at any depth.
+ */
+export function createGlobMatcher(
+  globs: string[]
+): (slashPath: string, isDirectory: boolean) => boolean {
+  const rules = globs.flatMap((glob) => parseRule(glob, '') ?? []);
+  return (slashPath, isDirectory) =>
+    rules.some((rule) => matches(rule, slashPath, isDirectory));
+}
+
+/** Whether the entry at `relativePath`, or any folder above it, is ignored. */
+export function isIgnoredPath(
+  filter: TreeFilter,
+  relativePath: string,
+  isDirectory: boolean
+): Promise<boolean> {
+  if (!relativePath) {
+    return Promise.resolve(false);
+  }
+  if (!isDirectory) {
+    return isIgnoredUncached(filter, relativePath, false);
+  }
+
+  let ignored = filter.ignoredFolders.get(relativePath);
+  if (!ignored) {
+    ignored = isIgnoredUncached(filter, relativePath, true);
+    filter.ignoredFolders.set(relativePath, ignored);
+  }
+  return ignored;
+}
+
+async function isIgnoredUncached(
+  filter: TreeFilter,
+  relativePath: string,
+  isDirectory: boolean
+): Promise<boolean> {
+  const parent = path.dirname(relativePath);
+  const parentPath = parent === '.' ? '' : parent;
+
+  if (await isIgnoredPath(filter, parentPath, true)) {
+    return true;
+  }
+  return isIgnoredBy(
+    await rulesFor(filter, parentPath),
+    filter,
+    relativePath,
+    isDirectory
+  );
+}
+
+function isIgnoredBy(
+  rules: IgnoreRule[],
+  filter: TreeFilter,
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  const segments = relativePath.split(path.sep);
+  const name = segments[segments.length - 1];
+  const slashPath = segments.join('/');
+
+  if (name.startsWith('.')) {
+    return true;
+  }
+  if (filter.exclude.some((rule) => matches(rule, slashPath, isDirectory))) {
+    return true;
+  }
+  if (
+    !isDirectory &&
+    filter.include.length > 0 &&
+    !filter.include.some((rule) => matches(rule, slashPath, false))
+  ) {
+    return true;
+  }
+
+  // Like git, the last matching rule wins, and deeper ignore files come later.
+  let ignored = false;
+  for (const rule of rules) {
+    if (matches(rule, slashPath, isDirectory)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+function matches(
+  rule: IgnoreRule,
+  slashPath: string,
+  isDirectory: boolean
+): boolean {
+  if (rule.directoryOnly && !isDirectory) {
+    return false;
+  }
+
+  const base = rule.baseDirectory.split(path.sep).join('/');
+  if (base && !slashPath.startsWith(`${base}/`)) {
+    return false;
+  }
+  return rule.pattern.test(base ? slashPath.slice(base.length + 1) : slashPath);
+}
+
+/** Rules from the ignore files in `relativePath` and every folder above it, root first. */
+async function rulesFor(
+  filter: TreeFilter,
+  relativePath: string
+): Promise<IgnoreRule[]> {
+  const folders = [''];
+  if (relativePath) {
+    const segments = relativePath.split(path.sep);
+    segments.forEach((_, index) =>
+      folders.push(path.join(...segments.slice(0, index + 1)))
+    );
+  }
+
+  const ruleSets = await Promise.all(
+    folders.map((folder) => readIgnoreFile(filter, folder))
+  );
+  return ruleSets.flat();
+}
+
+function readIgnoreFile(
+  filter: TreeFilter,
+  relativePath: string
+): Promise<IgnoreRule[]> {
+  let rules = filter.ignoreFiles.get(relativePath);
+  if (!rules) {
+    const filePath = path.join(
+      filter.rootDirectory,
+      relativePath,
+      IGNORE_FILE_NAME
+    );
+    rules = fs.readFile(filePath, 'utf8').then(
+      (contents) =>
+        contents
+          .split(/\r?\n/)
+          .flatMap((line) => parseRule(line, relativePath) ?? []),
+      // A missing or unreadable ignore file just means no rules.
+      () => []
+    );
+    filter.ignoreFiles.set(relativePath, rules);
+  }
+  return rules;
+}
+
+/**
+ * Parses one `.gitignore` line: `#` comments, `!` negation, a trailing `/` for folders
+ * only, and patterns without an inner `/` matching at any depth below the ignore file.
+ */
+function parseRule(line: string, baseDirectory: string): IgnoreRule | null {
+  let pattern = line.trimEnd();
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+
+  if (pattern.includes('/')) {
+    pattern = pattern.replace(/^\//, '');
+  } else {
+    pattern = `**/${pattern}`;
+  }
+
+  if (!pattern) {
+    return null;
+  }
+
+  return {
+    baseDirectory,
+    pattern: globToRegExp(pattern),
+    negate,
+    directoryOnly,
+  };
+}
+
+/** `*` and `?` stay within a segment, `**` spans segments, `[...]` is a class. */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+
+    if (char === '*' && glob[index + 1] === '*') {
+      const startsSegment = index === 0 || glob[index - 1] === '/';
+      if (startsSegment && glob[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else if (startsSegment && index + 2 === glob.length) {
+        source += '.*';
+        index += 1;
+      } else {
+        source += '[^/]*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', index + 2) !== -1) {
+      const end = glob.indexOf(']', index + 2);
+      const body = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      index = end;
+    } else if (char === '\\' && index + 1 < glob.length) {
+      source += escapeRegExp(glob[index + 1]);
+      index += 1;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,261 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { TreeNode, TreePatch } from '../../types/fileTree';
+import { emptyAggregate } from './folderAggregate';
+import { diffIndexes } from './indexDiff';
+import { toUnloadedFolder } from './readTree';
+import type { TreeRoot } from './roots';
+import {
+  readTreeIndex,
+  releaseTreeIndex,
+  rescanTreeIndex,
+  retainTreeIndex,
+} from './treeIndex';
+import type { IndexEntry, TreeIndex } from './treeIndex';
+import { fromTreePath } from './treePaths';
+
+let directory: string;
+let root: TreeRoot;
+let rootCount = 0;
+
+/** Models are cached by root id, so every test gets a root of its own. */
+function createRoot(rootDirectory: string): TreeRoot {
+  rootCount++;
+  return {
+    id: `index-test-${rootCount}`,
+    label: 'Index test',
+    directory: rootDirectory,
+    demo: false,
+    demoProfile: null,
+    include: [],
+    exclude: [],
+    followSymlinks: false,
+  };
+}
+
+async function write(relativePath: string, contents = relativePath) {
+  const filePath = path.join(directory, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+}
+
+/** What a rescan reports for `changedPaths`, diffed the way the watcher does. */
+async function rescan(changedPaths: string[]): Promise<TreePatch[]> {
+  const { previous, next, report } = await rescanTreeIndex(
+    root,
+    false,
+    changedPaths
+  );
+  expect(report.kind).toBe('incremental');
+  return diffIndexes(previous, next);
+}
+
+/** The index after a rescan has to match one scanned from scratch. */
+async function expectMatchesFullScan() {
+  const fresh = createRoot(directory);
+  retainTreeIndex(fresh, false);
+  try {
+    const expected = await readTreeIndex(fresh, false);
+    const actual = await readTreeIndex(root, false);
+    expect(signatures(actual)).toEqual(signatures(expected));
+  } finally {
+    releaseTreeIndex(fresh, false);
+  }
+}
+
+function signatures(index: TreeIndex): Record<string, string> {
+  const result: Record<string, string> = {};
+  index.forEach((entry, treePath) => {
+    result[treePath] = entry.signature;
+  });
+  return result;
+}
+
+function structural(patches: TreePatch[]) {
+  return patches.filter((patch) => patch.op !== 'metadata-changed');
+}
+
+function changedMetadata(patches: TreePatch[]): string[] {
+  return patches
+    .filter((patch) => patch.op === 'metadata-changed')
+    .map((patch) => patch.path)
+    .sort();
+}
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tree-index-'));
+  await write('src/a.ts');
+  await write('src/b.ts');
+  await write('src/lib/x.ts');
+  await write('src/lib/y.ts');
+  await write('docs/readme.md');
+  await write('debug.log');
+  root = createRoot(directory);
+  retainTreeIndex(root, false);
+  await readTreeIndex(root, false);
+});
+
+afterEach(async () => {
+  releaseTreeIndex(root, false);
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('rescanTreeIndex', () => {
+  it('adds a new file and updates the folders above it', async () => {
+    await write('src/lib/z.ts');
+
+    const patches = await rescan(['src/lib/z.ts']);
+
+    expect(structural(patches)).toEqual([
+      expect.objectContaining({ op: 'added', path: 'root/src/lib/z.ts' }),
+    ]);
+    expect(changedMetadata(patches)).toEqual([
+      'root',
+      'root/src',
+      'root/src/lib',
+    ]);
+    await expectMatchesFullScan();
+  });
+
+  it('adds a new folder with everything in it', async () => {
+    await write('src/new/deep/file.ts');
+
+    const patches = await rescan(['src/new']);
+
+    expect(structural(patches)).toEqual([
+      expect.objectContaining({ op: 'added', path: 'root/src/new' }),
+    ]);
+    const index = await readTreeIndex(root, false);
+    expect(index.has('root/src/new/deep/file.ts')).toBe(true);
+    await expectMatchesFullScan();
+  });
+
+  it('removes a folder and everything below it', async () => {
+    await fs.rm(path.join(directory, 'src/lib'), { recursive: true });
+
+    const patches = await rescan(['src/lib']);
+
+    expect(structural(patches)).toEqual([
+      { op: 'removed', path: 'root/src/lib' },
+    ]);
+    const index = await readTreeIndex(root, false);
+    expect(index.has('root/src/lib/x.ts')).toBe(false);
+    await expectMatchesFullScan();
+  });
+
+  it('reports a renamed folder as a rename', async () => {
+    await fs.rename(
+      path.join(directory, 'src/lib'),
+      path.join(directory, 'src/util')
+    );
+
+    const patches = await rescan(['src/lib', 'src/util']);
+
+    expect(structural(patches)).toEqual([
+      expect.objectContaining({
+        op: 'renamed',
+        from: 'root/src/lib',
+        path: 'root/src/util',
+      }),
+    ]);
+    const index = await readTreeIndex(root, false);
+    expect(index.has('root/src/util/x.ts')).toBe(true);
+    expect(index.has('root/src/lib/x.ts')).toBe(false);
+    await expectMatchesFullScan();
+  });
+
+  it('hides and shows entries when a .gitignore changes', async () => {
+    await write('.gitignore', '*.log\n');
+
+    let patches = await rescan(['.gitignore']);
+    expect(structural(patches)).toEqual([
+      { op: 'removed', path: 'root/debug.log' },
+    ]);
+    await expectMatchesFullScan();
+
+    await write('.gitignore', '');
+    patches = await rescan(['.gitignore']);
+    expect(structural(patches)).toEqual([
+      expect.objectContaining({ op: 'added', path: 'root/debug.log' }),
+    ]);
+    await expectMatchesFullScan();
+  });
+
+  it('rereads everything when asked for a full scan', async () => {
+    await write('docs/guide.md');
+
+    const { previous, next, report } = await rescanTreeIndex(
+      root,
+      false,
+      null
+    );
+
+    expect(report.kind).toBe('full');
+    expect(structural(diffIndexes(previous, next))).toEqual([
+      expect.objectContaining({ op: 'added', path: 'root/docs/guide.md' }),
+    ]);
+  });
+});
+
+describe('diffIndexes', () => {
+  const entry = (
+    type: 'file' | 'folder',
+    treePath: string,
+    signature: string
+  ): [string, IndexEntry] => {
+    const node: TreeNode =
+      type === 'file'
+        ? {
+            type,
+            name: treePath.slice(treePath.lastIndexOf('/') + 1),
+            path: treePath,
+            extension: null,
+            sizeInBytes: 1,
+            modifiedAt: '2024-01-01T00:00:00.000Z',
+          }
+        : toUnloadedFolder(fromTreePath(treePath), 0, emptyAggregate());
+    return [treePath, { node, signature }];
+  };
+
+  it('reports only the top-most of removed and added paths', () => {
+    const previous: TreeIndex = new Map([
+      entry('folder', 'root/a', 'folder:x'),
+      entry('file', 'root/a/x', 'file:1'),
+    ]);
+    const next: TreeIndex = new Map([
+      entry('folder', 'root/b', 'folder:y'),
+      entry('file', 'root/b/y', 'file:2'),
+    ]);
+
+    expect(diffIndexes(previous, next)).toEqual([
+      { op: 'removed', path: 'root/a' },
+      expect.objectContaining({ op: 'added', path: 'root/b' }),
+    ]);
+  });
+
+  it('does not guess a rename when signatures are ambiguous', () => {
+    const previous: TreeIndex = new Map([
+      entry('file', 'root/a', 'file:same'),
+      entry('file', 'root/b', 'file:same'),
+    ]);
+    const next: TreeIndex = new Map([
+      entry('file', 'root/c', 'file:same'),
+      entry('file', 'root/d', 'file:same'),
+    ]);
+
+    const ops = diffIndexes(previous, next).map((patch) => patch.op);
+    expect(ops).toEqual(['removed', 'removed', 'added', 'added']);
+  });
+
+  it('reports a file whose signature changed as changed metadata', () => {
+    const previous: TreeIndex = new Map([entry('file', 'root/a', 'file:1')]);
+    const next: TreeIndex = new Map([entry('file', 'root/a', 'file:2')]);
+
+    expect(diffIndexes(previous, next)).toEqual([
+      expect.objectContaining({ op: 'metadata-changed', path: 'root/a' }),
+    ]);
+  });
+});
@@ -0,0 +1,600 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type {
+  FolderAggregate,
+  ScanReport,
+  ScanTotals,
+  TreeIndexMetrics,
+  TreeNode,
+} from '../../types/fileTree';
+import { limitFileSystem } from './concurrency';
+import {
+  addFileToAggregate,
+  addFolderToAggregate,
+  emptyAggregate,
+} from './folderAggregate';
+import { gitStatusOf } from './gitStatus';
+import {
+  readVisibleEntries,
+  toFileNode,
+  toSymlinkNode,
+  toUnloadedFolder,
+} from './readTree';
+import { ensureTreeOnDisk } from './roots';
+import type { TreeRoot } from './roots';
+import {
+  createTreeFilter,
+  IGNORE_FILE_NAME,
+  isIgnoredPath,
+} from './treeFilter';
+import type { TreeEntry, TreeFilter } from './treeFilter';
+import { ROOT_KEY, toTreePath } from './treePaths';
+
+/**
+ * How long an index nobody watches is kept after its scan. Long enough for the watcher
+ * the explorer opens right after loading the root to pick it up instead of scanning.
+ */
+const UNWATCHED_TTL_MS = 10000;
+/** Past this many changed paths in one batch, a full scan is simpler than tracking them. */
+const MAX_INCREMENTAL_PATHS = 1000;
+/** Files in `.git` whose changes can change git statuses; the rest are ignored. */
+const GIT_STATE_FILES = new Set(['index', 'HEAD']);
+
+/**
+ * Flat snapshot of the tree, keyed by tree path. Folders are stored unloaded, which is
+ * exactly the shape the watcher sends for them in patches. `signature` is what the
+ * watcher compares to spot metadata changes and to pair a removal with an addition as
+ * a rename.
+ *
+ * The root folder is included too, so a change anywhere updates its aggregate.
+ */
+export type IndexEntry = {
+  node: TreeNode;
+  signature: string;
+};
+
+export type TreeIndex = Map<string, IndexEntry>;
+
+/**
+ * What a rescan changed: the entries it touched as they were before and as they are
+ * now. A path missing from `next` was removed, one missing from `previous` was added.
+ * After a full scan, both are the whole index.
+ */
+export type IndexChanges = {
+  previous: TreeIndex;
+  next: TreeIndex;
+  report: ScanReport;
+};
+
+type TreeModel = {
+  index: TreeIndex;
+  /** Names of each folder's visible children, in listing order, keyed by tree path. */
+  children: Map<string, string[]>;
+};
+
+type ModelState = {
+  root: TreeRoot;
+  showHidden: boolean;
+  model: Promise<TreeModel>;
+  /** Scans run one after the other, so none of them sees another half-done. */
+  queue: Promise<unknown>;
+  /** Number of watchers keeping this index current. */
+  watchers: number;
+  expiryTimer: NodeJS.Timeout | null;
+  fullScans: ScanTotals;
+  incrementalScans: ScanTotals;
+  lastScan: ScanReport | null;
+};
+
+/** How a scan writes what it finds, so a rescan can stage its writes until it is done. */
+type Scan = {
+  rootDirectory: string;
+  filter: TreeFilter;
+  foldersRead: number;
+  setEntry: (treePath: string, entry: IndexEntry) => void;
+  setChildren: (treePath: string, names: string[]) => void;
+  /** Forgets what was indexed below a folder that is about to be read from scratch. */
+  dropDescendants: (treePath: string) => void;
+};
+
+/** Writes of an incremental rescan, applied to the model only once it succeeds. */
+type Overlay = {
+  entries: Map<string, IndexEntry | null>;
+  children: Map<string, string[] | null>;
+};
+
+const models = new Map<string, ModelState>();
+
+/**
+ * A cached model of every entry under a root, shared by everything that needs the whole
+ * tree: the watcher diffs it to produce patches, /api/file-tree takes folder totals
+ * from it, and the search index is built from it. It is scanned once, with directory
+ * reads and stats running in parallel under `limitFileSystem`, and then kept current by
+ * rescanning only the folders the watcher reports changes in.
+ *
+ * Like the search index, a model is only kept while a watcher retains it (plus a short
+ * grace period after the scan), because that is what keeps it current. Models are kept
+ * separately with and without hidden entries.
+ */
+export async function readTreeIndex(
+  root: TreeRoot,
+  showHidden: boolean
+): Promise<TreeIndex> {
+  const state =
+    models.get(modelKey(root, showHidden)) ?? startModel(root, showHidden);
+  await state.queue;
+  return (await state.model).index;
+}
+
+/** The index if one is cached or being scanned, without starting a scan otherwise. */
+export async function findTreeIndex(
+  root: TreeRoot,
+  showHidden: boolean
+): Promise<TreeIndex | null> {
+  const state = models.get(modelKey(root, showHidden));
+  if (!state) {
+    return null;
+  }
+  await state.queue;
+  return (await state.model).index;
+}
+
+export function retainTreeIndex(root: TreeRoot, showHidden: boolean) {
+  const state =
+    models.get(modelKey(root, showHidden)) ?? startModel(root, showHidden);
+  state.watchers++;
+  if (state.expiryTimer) {
+    clearTimeout(state.expiryTimer);
+    state.expiryTimer = null;
+  }
+}
+
+export function releaseTreeIndex(root: TreeRoot, showHidden: boolean) {
+  const key = modelKey(root, showHidden);
+  const state = models.get(key);
+  if (state && --state.watchers <= 0) {
+    models.delete(key);
+  }
+}
+
+/**
+ * Brings the index up to date after the watcher reported changes at `changedPaths`
+ * (relative to the root), or anywhere when it is null. Each changed path has its
+ * folder's listing read again; folders that are new, or whose `.gitignore` changed,
+ * are scanned in full, and the totals and git statuses of every folder above them are
+ * recomputed from their children. Changes in `.git` that can change git statuses, links
+ * that are followed (their contents mirror other paths), large batches and failed
+ * rescans fall back to scanning the whole root.
+ */
+export function rescanTreeIndex(
+  root: TreeRoot,
+  showHidden: boolean,
+  changedPaths: string[] | null
+): Promise<IndexChanges> {
+  const state =
+    models.get(modelKey(root, showHidden)) ?? startModel(root, showHidden);
+
+  const run = state.queue.then(async () => {
+    const model = await state.model;
+    const startedAt = Date.now();
+
+    let changes: Omit<IndexChanges, 'report'> | null = null;
+    let foldersRead = 0;
+    if (changedPaths && !root.followSymlinks) {
+      const scan = createScan(root, showHidden);
+      try {
+        changes = await rescanPaths(root, model, scan, changedPaths);
+      } catch (error) {
+        console.error('Incremental rescan failed, scanning everything:', error);
+      }
+      foldersRead = scan.foldersRead;
+    }
+
+    let kind: ScanReport['kind'] = 'incremental';
+    if (!changes) {
+      kind = 'full';
+      const scanned = await scanTree(root, showHidden);
+      changes = { previous: model.index, next: scanned.model.index };
+      model.index = scanned.model.index;
+      model.children = scanned.model.children;
+      foldersRead += scanned.foldersRead;
+    }
+
+    const report = recordScan(state, kind, startedAt, foldersRead, model);
+    return { ...changes, report };
+  });
+  state.queue = run.catch(() => undefined);
+  return run;
+}
+
+export function readTreeIndexMetrics(): TreeIndexMetrics[] {
+  return Array.from(models.values()).map((state) => ({
+    rootId: state.root.id,
+    showHidden: state.showHidden,
+    watched: state.watchers > 0,
+    nodeCount: state.lastScan?.nodeCount ?? 0,
+    fullScans: { ...state.fullScans },
+    incrementalScans: { ...state.incrementalScans },
+    lastScan: state.lastScan,
+  }));
+}
+
+function modelKey(root: TreeRoot, showHidden: boolean): string {
+  return showHidden ? `${root.id}:all` : root.id;
+}
+
+function startModel(root: TreeRoot, showHidden: boolean): ModelState {
+  const key = modelKey(root, showHidden);
+  const startedAt = Date.now();
+  const model = scanTree(root, showHidden).then(({ model, foldersRead }) => {
+    recordScan(state, 'full', startedAt, foldersRead, model);
+    if (state.watchers === 0) {
+      state.expiryTimer = setTimeout(() => {
+        if (models.get(key) === state && state.watchers === 0) {
+          models.delete(key);
+        }
+      }, UNWATCHED_TTL_MS);
+    }
+    return model;
+  });
+
+  const state: ModelState = {
+    root,
+    showHidden,
+    model,
+    queue: model.catch(() => undefined),
+    watchers: 0,
+    expiryTimer: null,
+    fullScans: { count: 0, totalMs: 0, maxMs: 0 },
+    incrementalScans: { count: 0, totalMs: 0, maxMs: 0 },
+    lastScan: null,
+  };
+  // A failed scan is retried by the next caller instead of being cached.
+  model.catch(() => {
+    if (models.get(key) === state) {
+      models.delete(key);
+    }
+  });
+  models.set(key, state);
+  return state;
+}
+
+function recordScan(
+  state: ModelState,
+  kind: ScanReport['kind'],
+  startedAt: number,
+  foldersRead: number,
+  model: TreeModel
+): ScanReport {
+  const durationMs = Date.now() - startedAt;
+  const totals = kind === 'full' ? state.fullScans : state.incrementalScans;
+  totals.count++;
+  totals.totalMs += durationMs;
+  totals.maxMs = Math.max(totals.maxMs, durationMs);
+
+  state.lastScan = {
+    kind,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs,
+    foldersRead,
+    nodeCount: model.index.size,
+  };
+  return state.lastScan;
+}
+
+/** A fresh filter per scan, so edits to ignore files are picked up. */
+function createScan(root: TreeRoot, showHidden: boolean): Scan {
+  return {
+    rootDirectory: root.directory,
+    filter: createTreeFilter(root, showHidden),
+    foldersRead: 0,
+    setEntry: () => {},
+    setChildren: () => {},
+    dropDescendants: () => {},
+  };
+}
+
+async function scanTree(
+  root: TreeRoot,
+  showHidden: boolean
+): Promise<{ model: TreeModel; foldersRead: number }> {
+  await ensureTreeOnDisk(root);
+  const stats = await fs.stat(root.directory);
+  if (!stats.isDirectory()) {
+    throw new Error(`Expected ${root.directory} to be a directory.`);
+  }
+
+  const model: TreeModel = { index: new Map(), children: new Map() };
+  const scan: Scan = {
+    ...createScan(root, showHidden),
+    setEntry: (treePath, entry) => model.index.set(treePath, entry),
+    setChildren: (treePath, names) => model.children.set(treePath, names),
+  };
+
+  const nodes = await scanFolder(scan, '', null);
+  model.index.set(
+    ROOT_KEY,
+    await folderEntry(root, scan.filter, '', nodes.map(({ name }) => name), nodes)
+  );
+  return { model, foldersRead: scan.foldersRead };
+}
+
+/**
+ * Reads the folder at `relativePath` and indexes its children, scanning child folders
+ * in full unless `reuse` already holds them. Returns the children's nodes in listing
+ * order, which is the order their totals are added up in, so that two scans of the
+ * same folder come up with identical aggregates.
+ */
+async function scanFolder(
+  scan: Scan,
+  relativePath: string,
+  reuse: TreeIndex | null
+): Promise<TreeNode[]> {
+  const entries = await limitFileSystem(() =>
+    readVisibleEntries(
+      path.join(scan.rootDirectory, relativePath),
+      relativePath,
+      scan.filter
+    )
+  );
+  scan.foldersRead++;
+
+  const nodes = await Promise.all(
+    entries.map((entry) => scanEntry(scan, relativePath, entry, reuse))
+  );
+  scan.setChildren(
+    toTreePath(relativePath),
+    entries.map(({ name }) => name)
+  );
+  return nodes;
+}
+
+async function scanEntry(
+  scan: Scan,
+  parentRelative: string,
+  entry: TreeEntry,
+  reuse: TreeIndex | null
+): Promise<TreeNode> {
+  const entryRelative = parentRelative
+    ? path.join(parentRelative, entry.name)
+    : entry.name;
+  const treePath = toTreePath(entryRelative);
+
+  const existing = reuse?.get(treePath);
+  if (entry.isDirectory && existing?.node.type === 'folder') {
+    // The folder's own listing is read again if anything in it changed.
+    const { childCount, aggregate } = existing.node;
+    const node = toUnloadedFolder(entryRelative, childCount, aggregate, entry);
+    scan.setEntry(treePath, { node, signature: existing.signature });
+    return node;
+  }
+
+  scan.dropDescendants(treePath);
+
+  if (entry.isDirectory) {
+    const children = await scanFolder(scan, entryRelative, null);
+    const names = children.map(({ name }) => name);
+    const node = toUnloadedFolder(
+      entryRelative,
+      names.length,
+      sumAggregate(children),
+      entry
+    );
+    scan.setEntry(treePath, { node, signature: folderSignature(names) });
+    return node;
+  }
+
+  if (entry.link) {
+    const { target, targetType, broken } = entry.link;
+    const node = toSymlinkNode(entryRelative, entry.link, entry);
+    scan.setEntry(treePath, {
+      node,
+      signature: `symlink:${target}:${targetType}:${broken}:${entry.gitStatus}`,
+    });
+    return node;
+  }
+
+  const stats = await limitFileSystem(() =>
+    fs.stat(path.join(scan.rootDirectory, entryRelative))
+  );
+  const node = toFileNode(entryRelative, stats, entry);
+  scan.setEntry(treePath, {
+    node,
+    signature: `file:${node.sizeInBytes}:${node.modifiedAt}:${node.gitStatus}`,
+  });
+  return node;
+}
+
+/**
+ * Applies a batch of changed paths to the model, or returns null when only a full scan
+ * will do. Nothing is written to the model unless every folder is read successfully.
+ */
+async function rescanPaths(
+  root: TreeRoot,
+  model: TreeModel,
+  scan: Scan,
+  changedPaths: string[]
+): Promise<Omit<IndexChanges, 'report'> | null> {
+  if (changedPaths.length > MAX_INCREMENTAL_PATHS) {
+    return null;
+  }
+
+  const overlay: Overlay = { entries: new Map(), children: new Map() };
+  const entryAt = (treePath: string) =>
+    overlay.entries.has(treePath)
+      ? overlay.entries.get(treePath) ?? undefined
+      : model.index.get(treePath);
+  const childrenOf = (treePath: string) =>
+    (overlay.children.has(treePath)
+      ? overlay.children.get(treePath)
+      : model.children.get(treePath)) ?? [];
+  const removeSubtree = (treePath: string) => {
+    childrenOf(treePath).forEach((name) => removeSubtree(`${treePath}/${name}`));
+    overlay.children.set(treePath, null);
+    overlay.entries.set(treePath, null);
+  };
+
+  scan.setEntry = (treePath, entry) => overlay.entries.set(treePath, entry);
+  scan.setChildren = (treePath, names) => overlay.children.set(treePath, names);
+  scan.dropDescendants = (treePath) => {
+    childrenOf(treePath).forEach((name) => removeSubtree(`${treePath}/${name}`));
+    overlay.children.set(treePath, null);
+  };
+
+  // Folders to read again, relative to the root, and whether to read them in full.
+  const targets = new Map<string, boolean>();
+  const addTarget = async (relativePath: string, deep: boolean) => {
+    let folder = relativePath;
+    while (folder && !(await isKnownFolder(model, scan, folder))) {
+      folder = parentOf(folder);
+      deep = false;
+    }
+    targets.set(folder, deep || targets.get(folder) === true);
+  };
+
+  for (const changedPath of changedPaths) {
+    const segments = changedPath.split(path.sep);
+    if (segments[0] === '.git') {
+      if (GIT_STATE_FILES.has(segments[segments.length - 1])) {
+        return null;
+      }
+      continue;
+    }
+
+    const name = segments[segments.length - 1];
+    await addTarget(parentOf(changedPath), name === IGNORE_FILE_NAME);
+    if (model.children.has(toTreePath(changedPath))) {
+      await addTarget(changedPath, false);
+    }
+  }
+
+  // Parents first: a folder a parent's rescan removed is skipped.
+  const folders = Array.from(targets.keys()).sort(
+    (a, b) => depthOf(a) - depthOf(b)
+  );
+  for (const folder of folders) {
+    const treePath = toTreePath(folder);
+    if (folder && !entryAt(treePath)) continue;
+
+    const previousNames = childrenOf(treePath);
+    if (targets.get(folder)) {
+      scan.dropDescendants(treePath);
+    }
+    const nodes = await scanFolder(
+      scan,
+      folder,
+      targets.get(folder) ? null : model.index
+    );
+    const names = new Set(nodes.map(({ name }) => name));
+    previousNames
+      .filter((name) => !names.has(name))
+      .forEach((name) => removeSubtree(`${treePath}/${name}`));
+  }
+
+  // Then every folder from the rescanned ones up to the root, deepest first, so each
+  // one adds up children that are already current.
+  const ancestors = new Set<string>();
+  folders.forEach((folder) => {
+    for (let current = folder; ; current = parentOf(current)) {
+      ancestors.add(current);
+      if (!current) break;
+    }
+  });
+  const recompute = Array.from(ancestors)
+    .filter((folder) => !folder || entryAt(toTreePath(folder)))
+    .sort((a, b) => depthOf(b) - depthOf(a));
+  for (const folder of recompute) {
+    const treePath = toTreePath(folder);
+    const names = childrenOf(treePath);
+    const nodes = names.map((name) => entryAt(`${treePath}/${name}`)!.node);
+    overlay.entries.set(
+      treePath,
+      await folderEntry(root, scan.filter, folder, names, nodes)
+    );
+  }
+
+  const previous: TreeIndex = new Map();
+  const next: TreeIndex = new Map();
+  overlay.entries.forEach((entry, treePath) => {
+    const old = model.index.get(treePath);
+    if (old) previous.set(treePath, old);
+    if (entry) {
+      next.set(treePath, entry);
+      model.index.set(treePath, entry);
+    } else {
+      model.index.delete(treePath);
+    }
+  });
+  overlay.children.forEach((names, treePath) => {
+    if (names) {
+      model.children.set(treePath, names);
+    } else {
+      model.children.delete(treePath);
+    }
+  });
+  return { previous, next };
+}
+
+/** Whether `relativePath` is a folder both in the model and on disk. */
+async function isKnownFolder(
+  model: TreeModel,
+  scan: Scan,
+  relativePath: string
+): Promise<boolean> {
+  if (!model.children.has(toTreePath(relativePath))) {
+    return false;
+  }
+  try {
+    const stats = await fs.stat(path.join(scan.rootDirectory, relativePath));
+    return stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** The entry of a folder, or of the root when `relativePath` is ''. */
+async function folderEntry(
+  root: TreeRoot,
+  filter: TreeFilter,
+  relativePath: string,
+  childNames: string[],
+  children: TreeNode[]
+): Promise<IndexEntry> {
+  const aggregate = sumAggregate(children);
+  const gitStatus = await gitStatusOf(filter, relativePath, true);
+  const node = relativePath
+    ? toUnloadedFolder(relativePath, childNames.length, aggregate, {
+        ignored: await isIgnoredPath(filter, relativePath, true),
+        gitStatus,
+      })
+    : {
+        ...toUnloadedFolder('', childNames.length, aggregate, { gitStatus }),
+        name: root.label,
+      };
+  return { node, signature: folderSignature(childNames) };
+}
+
+function sumAggregate(children: TreeNode[]): FolderAggregate {
+  const aggregate = emptyAggregate();
+  children.forEach((child) => {
+    if (child.type === 'folder') {
+      addFolderToAggregate(aggregate, child.aggregate);
+    } else if (child.type === 'file') {
+      addFileToAggregate(aggregate, child);
+    }
+  });
+  return aggregate;
+}
+
+function folderSignature(childNames: string[]): string {
+  return `folder:${[...childNames].sort().join('/')}`;
+}
+
+function parentOf(relativePath: string): string {
+  const parent = path.dirname(relativePath);
+  return parent === '.' ? '' : parent;
+}
+
+function depthOf(relativePath: string): number {
+  return relativePath ? relativePath.split(path.sep).length : 0;
+}
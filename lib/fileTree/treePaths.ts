@@ -0,0 +1,58 @@
+import path from 'node:path';
+import { BadRequestError } from './errors';
+
+/** Every tree path starts with this segment, whichever root it belongs to. */
+export const ROOT_KEY = 'root';
+
+export function toTreePath(relativePath: string): string {
+  if (!relativePath) {
+    return ROOT_KEY;
+  }
+
+  const normalized = relativePath.split(path.sep).join('/');
+  return `${ROOT_KEY}/${normalized}`;
+}
+
+/**
+ * Maps a tree path back to a path relative to the root directory. Only plain names are
+ * accepted as segments, so a request can never climb out of the root.
+ */
+export function fromTreePath(treePath: string): string {
+  if (treePath === ROOT_KEY) {
+    return '';
+  }
+
+  if (!treePath.startsWith(`${ROOT_KEY}/`)) {
+    throw new BadRequestError(`Invalid path: ${treePath}`);
+  }
+
+  const segments = treePath.slice(ROOT_KEY.length + 1).split('/');
+  if (segments.some((segment) => !isValidName(segment))) {
+    throw new BadRequestError(`Invalid path: ${treePath}`);
+  }
+
+  return path.join(...segments);
+}
+
+export function isSameOrAncestorTreePath(
+  ancestor: string,
+  treePath: string
+): boolean {
+  return treePath === ancestor || treePath.startsWith(`${ancestor}/`);
+}
+
+export function isValidName(name: string): boolean {
+  return (
+    name.length > 0 &&
+    name !== '.' &&
+    name !== '..' &&
+    !name.includes('/') &&
+    !name.includes('\\') &&
+    !name.includes('\0')
+  );
+}
+
+export function extractExtension(filename: string): string | null {
+  const ext = path.extname(filename).replace('.', '');
+  return ext ? ext : null;
+}
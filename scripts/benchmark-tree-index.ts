@@ -0,0 +1,164 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  FIXTURE_PROFILES,
+  generateFixtureTree,
+  isFixtureProfileName,
+} from '../lib/fileTree/fixtures';
+import { diffIndexes } from '../lib/fileTree/indexDiff';
+import type { TreeRoot } from '../lib/fileTree/roots';
+import {
+  readTreeIndex,
+  releaseTreeIndex,
+  rescanTreeIndex,
+  retainTreeIndex,
+} from '../lib/fileTree/treeIndex';
+import { fromTreePath } from '../lib/fileTree/treePaths';
+
+const USAGE = `Usage: npm run benchmark-index -- [options]
+
+Generates a fixture tree, scans it into a tree index, then times full rescans against
+incremental ones after a few edits (a file added, one changed, one renamed and one
+removed, in different folders), as the watcher would run them.
+
+Options:
+  --profile <name>    Fixture profile to generate (default: huge):
+                      ${Object.keys(FIXTURE_PROFILES).join(', ')}
+  --rounds <n>        Rounds of edits, each timed both ways (default: 5)
+  --directory <path>  Where to generate the tree (default: a folder in the OS temp
+                      directory, outside any git repository); removed afterwards
+  --keep              Leave the generated tree in place`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      profile: { type: 'string', default: 'huge' },
+      rounds: { type: 'string', default: '5' },
+      directory: { type: 'string' },
+      keep: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!isFixtureProfileName(values.profile)) {
+    throw new Error(`Unknown profile "${values.profile}".`);
+  }
+  const rounds = Number(values.rounds);
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error('Expected --rounds to be a whole number of at least 1.');
+  }
+
+  const directory = path.resolve(
+    values.directory ?? path.join(os.tmpdir(), 'file-tree-benchmark')
+  );
+  const root: TreeRoot = {
+    id: 'benchmark',
+    label: 'Benchmark',
+    directory,
+    demo: false,
+    demoProfile: null,
+    include: [],
+    exclude: [],
+    followSymlinks: false,
+  };
+
+  let startedAt = Date.now();
+  const summary = await generateFixtureTree(
+    directory,
+    FIXTURE_PROFILES[values.profile]
+  );
+  console.log(
+    `Generated "${values.profile}": ${summary.folderCount} folders, ${summary.fileCount} files in ${Date.now() - startedAt}ms`
+  );
+
+  retainTreeIndex(root, false);
+  try {
+    startedAt = Date.now();
+    const index = await readTreeIndex(root, false);
+    console.log(
+      `First scan: ${index.size} entries in ${Date.now() - startedAt}ms\n`
+    );
+
+    const full: number[] = [];
+    const incremental: number[] = [];
+    for (let round = 0; round < rounds; round++) {
+      const fullScan = await rescanTreeIndex(root, false, null);
+      full.push(fullScan.report.durationMs);
+
+      const changedPaths = await editTree(root, round);
+      const { previous, next, report } = await rescanTreeIndex(
+        root,
+        false,
+        changedPaths
+      );
+      incremental.push(report.durationMs);
+      console.log(
+        `Round ${round + 1}: full ${fullScan.report.durationMs}ms ` +
+          `(${fullScan.report.foldersRead} folders), ` +
+          `${report.kind} ${report.durationMs}ms ` +
+          `(${report.foldersRead} folders, ${diffIndexes(previous, next).length} patches)`
+      );
+    }
+
+    const fullMedian = median(full);
+    const incrementalMedian = median(incremental);
+    console.log(
+      `\nMedian full scan: ${fullMedian}ms, median incremental scan: ${incrementalMedian}ms ` +
+        `(${(fullMedian / Math.max(incrementalMedian, 1)).toFixed(0)}× faster)`
+    );
+  } finally {
+    releaseTreeIndex(root, false);
+    if (!values.keep) {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Adds, changes, renames and removes a file, each in a different folder picked evenly
+ * from the index, and returns the paths fs.watch would report for them.
+ */
+async function editTree(root: TreeRoot, round: number): Promise<string[]> {
+  const files: string[] = [];
+  const folders: string[] = [];
+  (await readTreeIndex(root, false)).forEach(({ node }, treePath) => {
+    if (node.type === 'file') files.push(fromTreePath(treePath));
+    if (node.type === 'folder') folders.push(fromTreePath(treePath));
+  });
+  files.sort();
+  folders.sort();
+  // A large prime stride spreads the picks across the tree, the same way every run.
+  const pick = (list: string[], step: number) =>
+    list[((round * 4 + step) * 7919) % list.length];
+
+  const added = path.join(pick(folders, 0), `benchmark-${round}.ts`);
+  const changed = pick(files, 1);
+  const renamed = pick(files, 2);
+  const removed = pick(files, 3);
+  const at = (relativePath: string) => path.join(root.directory, relativePath);
+
+  await fs.writeFile(at(added), `// added in round ${round}\n`);
+  await fs.appendFile(at(changed), `// changed in round ${round}\n`);
+  await fs.rename(at(renamed), at(`${renamed}.renamed`));
+  await fs.rm(at(removed));
+  return [added, changed, renamed, `${renamed}.renamed`, removed];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
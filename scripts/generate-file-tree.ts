@@ -0,0 +1,169 @@
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  FIXTURE_PROFILES,
+  generateFixtureTree,
+  isFixtureProfileName,
+} from '../lib/fileTree/fixtures';
+import type { FixtureProfile } from '../lib/fileTree/fixtures';
+
+const USAGE = `Usage: npm run generate-tree -- <output-directory> [options]
+
+Replaces <output-directory> with a generated tree. The same options always produce
+the same tree. A directory that is not empty is only replaced if this script
+generated it, unless --force is given.
+
+Options:
+  --profile <name>         Profile to start from (default: small):
+                           ${Object.keys(FIXTURE_PROFILES).join(', ')}
+  --seed <n>               Seed for the random layout
+  --nodes <n>              Number of files and folders
+  --max-depth <n>          Deepest level folders are created at
+  --fan-out <min>-<max>    Range of children per folder
+  --folder-ratio <0-1>     Chance that a child is a folder
+  --extensions <list>      Extension weights, as ts=8,md=2,=1 ('' is no extension)
+  --median-size <bytes>    Median file size
+  --size-spread <n>        Spread of file sizes, as the deviation of their logarithm
+  --max-size <bytes>       Largest file size
+  --hidden-ratio <0-1>     Chance that a name starts with a dot
+  --unicode-ratio <0-1>    Chance that a name has non-ASCII characters or spaces
+  --long-name-ratio <0-1>  Chance that a name is about 200 characters long
+  --force                  Replace <output-directory> whatever it holds`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profile: { type: 'string', default: 'small' },
+      seed: { type: 'string' },
+      nodes: { type: 'string' },
+      'max-depth': { type: 'string' },
+      'fan-out': { type: 'string' },
+      'folder-ratio': { type: 'string' },
+      extensions: { type: 'string' },
+      'median-size': { type: 'string' },
+      'size-spread': { type: 'string' },
+      'max-size': { type: 'string' },
+      'hidden-ratio': { type: 'string' },
+      'unicode-ratio': { type: 'string' },
+      'long-name-ratio': { type: 'string' },
+      force: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (!isFixtureProfileName(values.profile)) {
+    throw new Error(`Unknown profile "${values.profile}".`);
+  }
+
+  const base: FixtureProfile = FIXTURE_PROFILES[values.profile];
+  const number = (name: keyof typeof values, fallback: number, min = 0) =>
+    readNumber(values[name] as string | undefined, name, fallback, min);
+  const ratio = (name: keyof typeof values, fallback: number) =>
+    readRatio(values[name] as string | undefined, name, fallback);
+
+  const profile: FixtureProfile = {
+    seed: number('seed', base.seed),
+    nodeCount: number('nodes', base.nodeCount, 1),
+    maxDepth: number('max-depth', base.maxDepth, 1),
+    fanOut: readFanOut(values['fan-out'], base.fanOut),
+    folderRatio: ratio('folder-ratio', base.folderRatio),
+    extensions: readExtensions(values.extensions, base.extensions),
+    fileSize: {
+      medianBytes: number('median-size', base.fileSize.medianBytes),
+      spread: number('size-spread', base.fileSize.spread),
+      maxBytes: number('max-size', base.fileSize.maxBytes),
+    },
+    hiddenRatio: ratio('hidden-ratio', base.hiddenRatio),
+    unicodeRatio: ratio('unicode-ratio', base.unicodeRatio),
+    longNameRatio: ratio('long-name-ratio', base.longNameRatio),
+  };
+
+  const directory = path.resolve(positionals[0]);
+  const startedAt = Date.now();
+  const { folderCount, fileCount, totalBytes } = await generateFixtureTree(
+    directory,
+    profile,
+    { force: values.force }
+  );
+  const durationMs = Date.now() - startedAt;
+  console.log(
+    `${directory}: ${folderCount} folders, ${fileCount} files, ${totalBytes} bytes in ${durationMs}ms`
+  );
+}
+
+function readNumber(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  min: number
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!value.trim() || !Number.isFinite(number) || number < min) {
+    throw new Error(`Expected --${name} to be a number of at least ${min}.`);
+  }
+  return number;
+}
+
+function readRatio(
+  value: string | undefined,
+  name: string,
+  fallback: number
+): number {
+  const ratio = readNumber(value, name, fallback, 0);
+  if (ratio > 1) {
+    throw new Error(`Expected --${name} to be between 0 and 1.`);
+  }
+  return ratio;
+}
+
+function readFanOut(
+  value: string | undefined,
+  fallback: FixtureProfile['fanOut']
+): FixtureProfile['fanOut'] {
+  if (value === undefined) {
+    return fallback;
+  }
+  const match = /^(\d+)-(\d+)$/.exec(value);
+  const min = Number(match?.[1]);
+  const max = Number(match?.[2]);
+  if (!match || min < 1 || max < min) {
+    throw new Error('Expected --fan-out to be a range such as 2-20.');
+  }
+  return { min, max };
+}
+
+function readExtensions(
+  value: string | undefined,
+  fallback: Record<string, number>
+): Record<string, number> {
+  if (value === undefined) {
+    return fallback;
+  }
+  const extensions: Record<string, number> = {};
+  value.split(',').forEach((pair) => {
+    const [extension, weight] = pair.split('=');
+    extensions[extension.trim().replace(/^\./, '')] = readNumber(
+      weight,
+      'extensions',
+      1,
+      0
+    );
+  });
+  if (!Object.values(extensions).some((weight) => weight > 0)) {
+    throw new Error('Expected --extensions to give some extension a weight.');
+  }
+  return extensions;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
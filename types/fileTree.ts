@@ -1,8 +1,27 @@
 export type BaseNode = {
   name: string;
   path: string;
+  /**
+   * Set on entries hidden by default: dot-entries, entries matched by a `.gitignore` or
+   * the root's exclude globs, and everything inside them. They are only listed when
+   * `showHidden` is requested.
+   */
+  ignored?: boolean;
+  /**
+   * Set when the root is a git working tree and the entry is not clean. A folder carries
+   * the most pressing status of anything below it.
+   */
+  gitStatus?: GitStatus;
 };
 
+/** In order of precedence when a folder rolls up its contents; `ignored` never rolls up. */
+export type GitStatus =
+  | 'conflicted'
+  | 'modified'
+  | 'added'
+  | 'untracked'
+  | 'ignored';
+
 export type FileNode = BaseNode & {
   type: 'file';
   extension: string | null;
@@ -12,7 +31,278 @@ export type FileNode = BaseNode & {
 
 export type FolderNode = BaseNode & {
   type: 'folder';
+  /** Direct children fetched so far. May be empty or a prefix of the folder's contents. */
   children: TreeNode[];
+  /** Number of direct children on disk, whether or not they have been fetched. */
+  childCount: number;
+  hasChildren: boolean;
+  /**
+   * Cursor for the next page of children, or null once `children` is complete.
+   * Folders that have not been fetched at all carry the cursor of their first page.
+   */
+  nextCursor: string | null;
+  /** Totals over everything below the folder, loaded or not. */
+  aggregate: FolderAggregate;
+  /** Set when the folder is a followed symlink: the link's target, as stored in it. */
+  linkTarget?: string;
+};
+
+/**
+ * A symlink that is listed as a link rather than as what it points to: links to files,
+ * broken links, and links to folders that are not followed.
+ */
+export type SymlinkNode = BaseNode & {
+  type: 'symlink';
+  /** The target as stored in the link, so possibly relative to the link's folder. */
+  target: string;
+  /** What the target is, or null when the link is broken. */
+  targetType: 'file' | 'folder' | 'other' | null;
+  broken: boolean;
+  /** The target resolves outside the root, so it is never followed. */
+  outsideRoot: boolean;
+  /** Following the link would lead back to a folder above it. */
+  cycle?: boolean;
+};
+
+export type TreeNode = FileNode | FolderNode | SymlinkNode;
+
+/** Recursive totals for a folder, computed on the server and kept current by the watcher. */
+export type FolderAggregate = {
+  fileCount: number;
+  folderCount: number;
+  totalBytes: number;
+  /** Most recent `modifiedAt` of any file below the folder, or null when it has none. */
+  newestModifiedAt: string | null;
+  /** Files and bytes per extension; files without one are counted under ''. */
+  extensions: Record<string, ExtensionTotal>;
+};
+
+export type ExtensionTotal = {
+  count: number;
+  sizeInBytes: number;
+};
+
+export type SortKey = 'name' | 'size' | 'modified' | 'extension';
+
+export type SortDirection = 'asc' | 'desc';
+
+/** How a folder's children are ordered, both by the API and in the explorer. */
+export type SortOrder = {
+  key: SortKey;
+  direction: SortDirection;
+  /** Keep folders above files whatever the key and direction. */
+  foldersFirst: boolean;
+};
+
+/** Output formats of /api/file-tree/export; `tree` is the ASCII art of the `tree` command. */
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'tree';
+
+/** Optional metadata in an export, besides each entry's path and type. */
+export type ExportColumn = 'extension' | 'size' | 'modified';
+
+/** How /api/file-tree/content classifies a file, reported in `X-Content-Kind`. */
+export type FileContentKind = 'text' | 'binary' | 'image';
+
+/** A configured directory the explorer can browse, as listed by /api/file-tree/roots. */
+export type TreeRootSummary = {
+  id: string;
+  label: string;
+  /** Whether the root is inside a git working tree, so its nodes carry `gitStatus`. */
+  isGitRepository: boolean;
+};
+
+/**
+ * A single change to the tree, as emitted by the watcher. `path` is always the
+ * node's current location; folders in `node` are sent unloaded.
+ */
+export type TreePatch =
+  | { op: 'added'; path: string; node: TreeNode }
+  | { op: 'removed'; path: string }
+  | { op: 'renamed'; from: string; path: string; node: TreeNode }
+  | { op: 'metadata-changed'; path: string; node: TreeNode };
+
+/** Request bodies and response for the mutation handlers on /api/file-tree. */
+export type CreateEntryRequest = {
+  parentPath: string;
+  name: string;
+  type: 'file' | 'folder';
+};
+
+/** Renames when only `name` is given, moves when `parentPath` is given. */
+export type UpdateEntryRequest = {
+  path: string;
+  name?: string;
+  parentPath?: string;
+};
+
+export type MutationResponse = {
+  patch: TreePatch;
+};
+
+/** Body and response for /api/file-tree/move, which moves entries into one folder. */
+export type MoveEntriesRequest = {
+  paths: string[];
+  targetPath: string;
+};
+
+export type MoveEntriesResponse = {
+  patches: TreePatch[];
+};
+
+/** Half-open `[start, end)` character offsets into a string. */
+export type TextRange = [number, number];
+
+/**
+ * A ranked match from /api/file-tree/search. `nameRanges` index into `name` and are
+ * empty when only the folders leading to the entry matched; `pathRanges` index into
+ * `path`.
+ */
+export type SearchResult = {
+  path: string;
+  name: string;
+  type: TreeNode['type'];
+  ignored?: boolean;
+  score: number;
+  nameRanges: TextRange[];
+  pathRanges: TextRange[];
+};
+
+export type SearchResponse = {
+  results: SearchResult[];
+};
+
+/**
+ * One entry in a root's change history. `modified` covers files and links whose size,
+ * date or git status changed; folders only change through their contents, so they
+ * appear only when they are added, removed or renamed themselves.
+ */
+export type ChangeKind = 'added' | 'removed' | 'renamed' | 'modified';
+
+export type ChangeEvent = {
+  /** Increases by one per event, per root. */
+  id: number;
+  kind: ChangeKind;
+  path: string;
+  /** The old path of a renamed entry. */
+  from?: string;
+  type: TreeNode['type'];
+  /** ISO timestamp of the scan that noticed the change. */
+  timestamp: string;
+};
+
+/** Response of /api/file-tree/history, newest event first. */
+export type HistoryResponse = {
+  events: ChangeEvent[];
+};
+
+/** A named record of a root's entries, from /api/file-tree/snapshots. */
+export type SnapshotSummary = {
+  name: string;
+  createdAt: string;
+  entryCount: number;
+  /** Whether file contents were hashed, which is what lets moves be detected. */
+  hashed: boolean;
+  showHidden: boolean;
+};
+
+export type SnapshotListResponse = {
+  snapshots: SnapshotSummary[];
+};
+
+export type CreateSnapshotRequest = {
+  name: string;
+  hash?: boolean;
+};
+
+/**
+ * A difference between two states of a root. `moved` is a file that was removed and
+ * added elsewhere with the same content; `modified` is a file whose contents (or, when
+ * either side was not hashed, size or date) changed, or a link whose target did.
+ */
+export type SnapshotChangeKind = 'added' | 'removed' | 'moved' | 'modified';
+
+export type SnapshotChange = {
+  kind: SnapshotChangeKind;
+  /** Where the entry is in the newer state, or was, if it was removed. */
+  path: string;
+  /** The older path of a moved entry. */
+  from?: string;
+  type: TreeNode['type'];
+};
+
+/** Response of /api/file-tree/snapshots/compare. `to` is null for the live tree. */
+export type SnapshotComparison = {
+  from: string;
+  to: string | null;
+  changes: SnapshotChange[];
+};
+
+/** A line of a file that matched a /api/file-tree/grep query. `ranges` index into `text`. */
+export type GrepLineMatch = {
+  /** 1-based. */
+  line: number;
+  text: string;
+  ranges: TextRange[];
+};
+
+/**
+ * One line of the NDJSON stream from /api/file-tree/grep. A `file` event carries all
+ * the matches in one file and is sent as soon as that file has been searched; `done`
+ * ends a search that ran to completion or hit its limit.
+ */
+export type GrepEvent =
+  | { type: 'file'; path: string; matches: GrepLineMatch[] }
+  | {
+      type: 'done';
+      filesSearched: number;
+      /** Binary files and files over the size limit, which are not searched. */
+      filesSkipped: number;
+      matchCount: number;
+      /** The match limit was reached before every file had been searched. */
+      truncated: boolean;
+    }
+  | { type: 'error'; message: string };
+
+/** One scan of a root by the server's tree index; see /api/file-tree/metrics. */
+export type ScanReport = {
+  /** `full` walks the whole root; `incremental` only the folders a change touched. */
+  kind: 'full' | 'incremental';
+  startedAt: string;
+  durationMs: number;
+  foldersRead: number;
+  /** Entries in the index once the scan was done, the root included. */
+  nodeCount: number;
+};
+
+export type ScanTotals = {
+  count: number;
+  totalMs: number;
+  /** Duration of the slowest scan of this kind so far. */
+  maxMs: number;
+};
+
+export type TreeIndexMetrics = {
+  rootId: string;
+  showHidden: boolean;
+  /** Whether a watcher is keeping the index current. */
+  watched: boolean;
+  nodeCount: number;
+  fullScans: ScanTotals;
+  incrementalScans: ScanTotals;
+  lastScan: ScanReport | null;
+};
+
+export type MetricsResponse = {
+  indexes: TreeIndexMetrics[];
 };
 
-export type TreeNode = FileNode | FolderNode;
+/**
+ * Sent by /api/file-tree/watch. `patch` and `connected` events carry an SSE id to resume
+ * from; `reset` means the changes since the id a client resumed from are gone, so it
+ * has to reload the tree.
+ */
+export type WatchEvent =
+  | { type: 'connected' }
+  | { type: 'patch'; patches: TreePatch[] }
+  | { type: 'reset' }
+  | { type: 'error'; message: string };
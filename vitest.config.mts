@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // Next compiles JSX itself, so tsconfig leaves it as is; tests need it turned into calls.
+  esbuild: { jsx: 'automatic' },
+  test: {
+    include: ['app/**/*.test.{ts,tsx}', 'lib/**/*.test.ts'],
+    environmentMatchGlobs: [['app/**', 'jsdom']],
+  },
+});